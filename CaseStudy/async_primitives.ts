@@ -0,0 +1,176 @@
+import { Actor, reentrant } from "./concurrency/actor";
+import { AsyncStream, BufferingPolicy } from "./concurrency/async_stream";
+import { AbortError } from "./concurrency/continuation";
+import { RequestCoalescer } from "./concurrency/request_coalescer";
+import { realScheduler, sleep } from "./concurrency/scheduler";
+import {
+  AsyncMutex,
+  AsyncSemaphore,
+  Condition,
+} from "./concurrency/synchronization";
+import { withTaskGroup } from "./concurrency/task_group";
+
+// Example usage of AsyncMutex
+// Without the mutex both increments would read 0 before either writes back, and the counter would end up at 1.
+let counter = 0;
+const counterMutex = new AsyncMutex();
+
+async function increment() {
+  await counterMutex.runExclusive(async () => {
+    const read = counter;
+    await sleep(realScheduler, 100);
+    counter = read + 1;
+  });
+}
+
+Promise.all([increment(), increment()]).then(() =>
+  console.log(`Mutex: counter is ${counter}`)
+);
+
+// Example usage of AsyncSemaphore
+// At most two downloads run at once; the third one waits for a permit and the fourth one gives up after 150ms.
+const downloads = new AsyncSemaphore(2);
+
+async function download(name: string, signal?: AbortSignal) {
+  try {
+    await downloads.withPermit(async () => {
+      console.log(`Semaphore: ${name} starts`);
+      await sleep(realScheduler, 200);
+      console.log(`Semaphore: ${name} ends`);
+    }, signal);
+  } catch (e) {
+    if (e instanceof AbortError) console.log(`Semaphore: ${name} gave up`);
+  }
+}
+
+download("a");
+download("b");
+download("c");
+download("d", AbortSignal.timeout(150));
+
+// Example usage of Condition
+// The consumer waits (releasing the mutex) until the producer has put something into the buffer.
+const buffer: string[] = [];
+const bufferMutex = new AsyncMutex();
+const bufferNotEmpty = new Condition();
+
+async function consume() {
+  await bufferMutex.acquire();
+  try {
+    while (!buffer.length) await bufferNotEmpty.wait(bufferMutex);
+    console.log(`Condition: consumed ${buffer.shift()}`);
+  } finally {
+    bufferMutex.release();
+  }
+}
+
+async function produce(item: string) {
+  await bufferMutex.runExclusive(() => {
+    buffer.push(item);
+    bufferNotEmpty.signal();
+  });
+}
+
+consume();
+sleep(realScheduler, 100).then(() => produce("item"));
+
+// Example usage of AsyncStream
+// The producer awaits each yield, so with a buffer of 2 it runs at most two ticks ahead of the slow consumer.
+// Breaking out of the loop cancels the stream, which stops the producer through onTermination.
+const ticks = new AsyncStream<number>((producer) => {
+  let running = true;
+  producer.onTermination = (termination) => {
+    running = false;
+    console.log(`AsyncStream: terminated (${termination})`);
+  };
+  (async () => {
+    for (let tick = 0; running; tick++) {
+      const result = await producer.yield(tick);
+      console.log(`AsyncStream: yielded ${tick} (${result.kind})`);
+    }
+  })();
+}, BufferingPolicy.suspending(2));
+
+(async () => {
+  for await (const tick of ticks) {
+    console.log(`AsyncStream: consumed ${tick}`);
+    await sleep(realScheduler, 100);
+    if (tick === 3) break;
+  }
+})();
+
+// Example usage of TaskGroup
+// Three children share a coalesced request while a fourth one fails after 100ms.
+// The failure cancels the group's signal, which aborts every waiter (and so the shared fetch), and is rethrown.
+let groupFetchAborted = false;
+const groupCoalescer = new RequestCoalescer(
+  async (path: string, signal?: AbortSignal) => {
+    signal?.addEventListener("abort", () => (groupFetchAborted = true));
+    await sleep(realScheduler, 1000, signal);
+    return `payload of ${path}`;
+  },
+  {
+    bindSignal: ([path], signal): [string, AbortSignal?] => [path, signal],
+  }
+);
+
+withTaskGroup<string, void>(
+  (group) => {
+    for (let child = 0; child < 3; child++) {
+      group.addTask((signal) =>
+        groupCoalescer.requestWithSignal(signal, "/todos/1")
+      );
+    }
+    group.addTask(async () => {
+      await sleep(realScheduler, 100);
+      throw new Error("child failed");
+    });
+  },
+  { maxConcurrency: 4 }
+).catch((e) =>
+  console.log(`TaskGroup: ${e.message}, fetch aborted: ${groupFetchAborted}`)
+);
+
+// Example usage of @Actor
+// Both deposits read the balance before an await; as an actor the second one waits for the first to finish.
+@Actor
+class BankAccount {
+  balance: number = 0;
+
+  async deposit(amount: number) {
+    const balance = this.balance;
+    await sleep(realScheduler, 100);
+    this.balance = balance + amount;
+    return this.balance;
+  }
+
+  @reentrant
+  async audit() {
+    return `balance is ${this.balance}`;
+  }
+
+  async depositAndAudit(amount: number) {
+    await this.deposit(amount); // Rejected with ActorDeadlockError: deposit waits for this very job.
+    return this.audit();
+  }
+
+  async auditAfter(amount: number) {
+    this.balance += amount;
+    return this.audit(); // OK: audit is reentrant.
+  }
+
+  async depositLater(amount: number) {
+    void this.deposit(amount); // OK: not awaited, the deposit runs after this job.
+    return "deposit queued";
+  }
+}
+
+const account = new BankAccount();
+Promise.all([account.deposit(10), account.deposit(20)]).then(async () => {
+  console.log(`Actor: ${await account.auditAfter(5)}`); // balance is 35
+  await account
+    .depositAndAudit(1)
+    .catch((e) => console.log(`Actor: ${e.name}`)); // ActorDeadlockError
+  console.log(`Actor: ${await account.depositLater(100)}`);
+  console.log(`Actor: ${await account.audit()}`); // balance is 135
+});
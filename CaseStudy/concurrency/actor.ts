@@ -0,0 +1,189 @@
+// this file requires `--experimentalDecorator` flag to compile correctly.
+import { AsyncMutex } from "./synchronization";
+
+type Isolation = "nonisolated" | "reentrant";
+
+/**
+ * A job is one isolated method call while it runs on its actor.
+ */
+type Job = {
+  actor: object;
+  method: string;
+  finished: boolean;
+};
+
+/**
+ * Thrown instead of hanging forever when a job waits for a call it queued on its own actor,
+ * e.g. when an isolated method awaits another isolated method of its own actor.
+ */
+export class ActorDeadlockError extends Error {
+  override name = "ActorDeadlockError";
+
+  constructor(chain: Job[], method: string) {
+    super(
+      `Actor deadlock: ${[...chain.map((job) => job.method), method].join(
+        " -> "
+      )}. Mark the callee @reentrant or @nonisolated, or do not await it.`
+    );
+  }
+}
+
+/**
+ * The promise of a call a job queued on its own actor. Waiting for it (`await`, `then`,
+ * `catch`, ...) while that job still runs would wait forever, so it rejects right away instead,
+ * and the queued call is dropped. A call nobody waits for simply runs after the job.
+ */
+class QueuedCall<T> extends Promise<T> {
+  static override get [Symbol.species]() {
+    return Promise;
+  }
+
+  public onWait: (() => void) | undefined;
+
+  override then<R1 = T, R2 = never>(
+    onfulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    this.onWait?.();
+    return super.then(onfulfilled, onrejected);
+  }
+}
+
+const isolationOverrides = new WeakMap<Function, Isolation>();
+const mailboxes = new WeakMap<object, AsyncMutex>();
+/**
+ * A job runs its method with `this` bound to a proxy of the actor, which tells calls made
+ * by the job itself (`this.method()`) apart from calls made by anyone else.
+ */
+const jobContexts = new WeakMap<object, Job>();
+
+function mailboxOf(actor: object): AsyncMutex {
+  let mailbox = mailboxes.get(actor);
+  if (!mailbox) {
+    mailbox = new AsyncMutex();
+    mailboxes.set(actor, mailbox);
+  }
+  return mailbox;
+}
+
+function isAsyncFunction(value: unknown): value is Function {
+  return Object.prototype.toString.call(value) === "[object AsyncFunction]";
+}
+
+async function runJob(
+  actor: object,
+  method: Function,
+  name: string,
+  args: unknown[]
+): Promise<unknown> {
+  const job: Job = { actor, method: name, finished: false };
+  const context = new Proxy(actor, {});
+  jobContexts.set(context, job);
+  try {
+    return await method.apply(context, args);
+  } finally {
+    job.finished = true;
+  }
+}
+
+function isolate(method: Function, name: string) {
+  return function (this: object, ...args: unknown[]): Promise<unknown> {
+    const job = jobContexts.get(this);
+    const caller = job && !job.finished ? job : undefined;
+    const actor = job?.actor ?? this;
+    if (caller && isolationOverrides.get(method) === "reentrant") {
+      return method.apply(this, args);
+    }
+    if (!caller) {
+      return mailboxOf(actor).runExclusive(() =>
+        runJob(actor, method, name, args)
+      );
+    }
+
+    let abandoned = false;
+    let reject: (reason: unknown) => void;
+    const call = new QueuedCall<unknown>((resolve, rejectCall) => {
+      reject = rejectCall;
+      mailboxOf(actor)
+        .runExclusive(() =>
+          abandoned ? undefined : runJob(actor, method, name, args)
+        )
+        .then(resolve, rejectCall);
+    });
+    call.onWait = () => {
+      if (abandoned || caller.finished) return;
+      abandoned = true;
+      reject(new ActorDeadlockError([caller], name));
+    };
+    return call;
+  };
+}
+
+/**
+ * Opts an async method of an `@Actor` class out of the mailbox; it runs immediately,
+ * concurrently with whatever job the actor is running.
+ */
+export function nonisolated(
+  _target: object,
+  _propertyKey: string,
+  descriptor: PropertyDescriptor
+) {
+  isolationOverrides.set(descriptor.value, "nonisolated");
+}
+
+/**
+ * Lets an async method of an `@Actor` class be called from the actor's own running job
+ * without waiting for the mailbox. Calls from outside the actor still go through the mailbox.
+ */
+export function reentrant(
+  _target: object,
+  _propertyKey: string,
+  descriptor: PropertyDescriptor
+) {
+  isolationOverrides.set(descriptor.value, "reentrant");
+}
+
+/**
+ * A class decorator that turns a class into an actor, loosely modeled after Swift's actors.
+ * Every async method call, inherited methods included, is queued in a per-instance FIFO mailbox
+ * and runs only after the previous call has settled, so calls can no longer interleave around
+ * `await` points.
+ * Synchronous methods are left untouched, since nothing can interleave with them anyway.
+ *
+ * A job calling an isolated method of its own actor queues the call behind itself. Waiting for
+ * that call from the job would wait forever; it is rejected with `ActorDeadlockError` instead.
+ * Only calls made through `this` are recognized as the job's own, and since `this` is a proxy
+ * of the actor inside a job, actors cannot use `#private` fields. Cycles between different
+ * actors (A awaits B, which awaits A) are not detected.
+ *
+ * @template T - The type of the class being decorated.
+ * @param {T} constructor - The constructor of the class being decorated.
+ * @returns {T} The same constructor, with its async methods isolated.
+ */
+export function Actor<T extends { new (...args: any[]): object }>(
+  constructor: T
+): T {
+  // inherited async methods are isolated too, by wrappers defined on the decorated prototype
+  const seen = new Set<string>();
+  for (
+    let proto = constructor.prototype;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (const key of Object.getOwnPropertyNames(proto)) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+      const method = descriptor?.value;
+      if (key === "constructor" || !isAsyncFunction(method)) continue;
+      if (isolationOverrides.get(method) === "nonisolated") continue;
+
+      Object.defineProperty(constructor.prototype, key, {
+        ...descriptor,
+        value: isolate(method, `${constructor.name}.${key}`),
+      });
+    }
+  }
+
+  return constructor;
+}
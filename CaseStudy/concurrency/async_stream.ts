@@ -0,0 +1,258 @@
+import { Continuation } from "./continuation";
+
+/**
+ * How an `AsyncStream` buffers elements the consumer has not asked for yet.
+ * - `unbounded`: keeps every element.
+ * - `bufferingOldest(n)`: keeps the oldest `n` elements and drops new ones once full.
+ * - `bufferingNewest(n)`: keeps the newest `n` elements and drops the oldest ones once full.
+ * - `suspending(n)`: keeps `n` elements and suspends `yield()` until the consumer makes room.
+ */
+export type BufferingPolicy =
+  | { kind: "unbounded" }
+  | { kind: "bufferingOldest"; limit: number }
+  | { kind: "bufferingNewest"; limit: number }
+  | { kind: "suspending"; limit: number };
+
+export const BufferingPolicy = {
+  unbounded: { kind: "unbounded" } as BufferingPolicy,
+  bufferingOldest: (limit: number): BufferingPolicy => ({
+    kind: "bufferingOldest",
+    limit,
+  }),
+  bufferingNewest: (limit: number): BufferingPolicy => ({
+    kind: "bufferingNewest",
+    limit,
+  }),
+  suspending: (limit: number): BufferingPolicy => ({
+    kind: "suspending",
+    limit,
+  }),
+};
+
+export type YieldResult<T> =
+  | { kind: "enqueued"; remaining: number }
+  | { kind: "dropped"; element: T }
+  | { kind: "terminated" };
+
+/**
+ * Why a stream terminated: the producer called `finish()`/`fail()`, or the consumer
+ * stopped iterating (e.g. by breaking out of `for await`).
+ */
+export type Termination = "finished" | "cancelled";
+
+type Terminal = { kind: "finished" } | { kind: "failed"; error: unknown };
+
+type SuspendedYield<T> = {
+  element: T;
+  continuation: Continuation<YieldResult<T>>;
+};
+
+/**
+ * The state shared between a stream and its producer.
+ */
+class AsyncStreamStorage<T> {
+  private buffer: T[] = [];
+  private consumers: Continuation<IteratorResult<T, undefined>>[] = [];
+  private suspendedYields: SuspendedYield<T>[] = [];
+  private terminal: Terminal | undefined;
+  private cancelled: boolean = false;
+  public onTermination: ((termination: Termination) => void) | undefined;
+
+  constructor(private readonly policy: BufferingPolicy) {}
+
+  private get isTerminated(): boolean {
+    return this.cancelled || this.terminal !== undefined;
+  }
+
+  private get remaining(): number {
+    return this.policy.kind === "unbounded"
+      ? Infinity
+      : this.policy.limit - this.buffer.length;
+  }
+
+  public yield(element: T): Promise<YieldResult<T>> {
+    if (this.isTerminated) return Promise.resolve({ kind: "terminated" });
+
+    const consumer = this.consumers.shift();
+    if (consumer) {
+      consumer.resumeByReturning({ value: element, done: false });
+      return Promise.resolve({ kind: "enqueued", remaining: this.remaining });
+    }
+
+    const { policy } = this;
+    if (policy.kind === "unbounded" || this.buffer.length < policy.limit) {
+      this.buffer.push(element);
+      return Promise.resolve({ kind: "enqueued", remaining: this.remaining });
+    }
+    switch (policy.kind) {
+      case "bufferingOldest":
+        return Promise.resolve({ kind: "dropped", element });
+      case "bufferingNewest":
+        this.buffer.push(element);
+        return Promise.resolve({
+          kind: "dropped",
+          element: this.buffer.shift()!,
+        });
+      case "suspending": {
+        const continuation = new Continuation<YieldResult<T>>();
+        this.suspendedYields.push({ element, continuation });
+        return continuation;
+      }
+    }
+  }
+
+  /**
+   * Elements buffered or suspended in `yield()` before the end still drain to the consumer;
+   * only `cancel()` drops them.
+   */
+  public terminate(terminal: Terminal): void {
+    if (this.isTerminated) return;
+    this.terminal = terminal;
+    // A waiting consumer implies an empty buffer and no suspended yields, so it can learn about the end right away.
+    this.consumers.splice(0).forEach((consumer) => this.deliverEnd(consumer));
+    this.onTermination?.("finished");
+  }
+
+  public cancel(): void {
+    if (this.isTerminated) return;
+    this.cancelled = true;
+    this.buffer = [];
+    this.consumers
+      .splice(0)
+      .forEach((consumer) =>
+        consumer.resumeByReturning({ value: undefined, done: true })
+      );
+    this.releaseSuspendedYields();
+    this.onTermination?.("cancelled");
+  }
+
+  public next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length) {
+      const value = this.buffer.shift()!;
+      this.admitSuspendedYield();
+      return Promise.resolve({ value, done: false });
+    }
+    // With a zero-sized buffer, a suspended producer hands its element over directly.
+    const suspended = this.suspendedYields.shift();
+    if (suspended) {
+      suspended.continuation.resumeByReturning({
+        kind: "enqueued",
+        remaining: this.remaining,
+      });
+      return Promise.resolve({ value: suspended.element, done: false });
+    }
+    const consumer = new Continuation<IteratorResult<T, undefined>>();
+    if (this.isTerminated) this.deliverEnd(consumer);
+    else this.consumers.push(consumer);
+    return consumer;
+  }
+
+  /**
+   * Moves the longest suspended element into the room the consumer just made.
+   */
+  private admitSuspendedYield(): void {
+    const suspended = this.suspendedYields.shift();
+    if (!suspended) return;
+    this.buffer.push(suspended.element);
+    suspended.continuation.resumeByReturning({
+      kind: "enqueued",
+      remaining: this.remaining,
+    });
+  }
+
+  private releaseSuspendedYields(): void {
+    this.suspendedYields
+      .splice(0)
+      .forEach(({ continuation }) =>
+        continuation.resumeByReturning({ kind: "terminated" })
+      );
+  }
+
+  /**
+   * Ends iteration; a failure is thrown once, after which the stream is simply finished.
+   */
+  private deliverEnd(consumer: Continuation<IteratorResult<T, undefined>>) {
+    const terminal = this.terminal;
+    if (terminal?.kind === "failed") {
+      this.terminal = { kind: "finished" };
+      consumer.resumeByThrowing(terminal.error);
+    } else {
+      consumer.resumeByReturning({ value: undefined, done: true });
+    }
+  }
+}
+
+/**
+ * The producing side of an `AsyncStream`.
+ *
+ * `yield()` resolves with what happened to the element. Under the `suspending` policy it
+ * only resolves once the element fits into the buffer, which is how backpressure reaches
+ * a producer that awaits it.
+ */
+export class AsyncStreamProducer<T> {
+  constructor(private readonly storage: AsyncStreamStorage<T>) {}
+
+  public set onTermination(
+    callback: ((termination: Termination) => void) | undefined
+  ) {
+    this.storage.onTermination = callback;
+  }
+
+  public yield(element: T): Promise<YieldResult<T>> {
+    return this.storage.yield(element);
+  }
+
+  public finish(): void {
+    this.storage.terminate({ kind: "finished" });
+  }
+
+  public fail(error: unknown): void {
+    this.storage.terminate({ kind: "failed", error });
+  }
+}
+
+/**
+ * An `AsyncIterable` fed by an `AsyncStreamProducer`, modeled after Swift's `AsyncStream`.
+ * Elements are buffered according to a `BufferingPolicy` until the (single) consumer asks for them.
+ * Leaving a `for await` loop early cancels the stream and runs the producer's `onTermination`.
+ *
+ * @template T The type of the streamed elements.
+ */
+export class AsyncStream<T> implements AsyncIterable<T> {
+  private readonly storage: AsyncStreamStorage<T>;
+  private iterated: boolean = false;
+
+  constructor(
+    build: (producer: AsyncStreamProducer<T>) => void,
+    policy: BufferingPolicy = BufferingPolicy.unbounded
+  ) {
+    this.storage = new AsyncStreamStorage(policy);
+    build(new AsyncStreamProducer(this.storage));
+  }
+
+  /**
+   * Creates a stream along with its producer, for producers that live outside a closure.
+   */
+  public static makeStream<T>(
+    policy: BufferingPolicy = BufferingPolicy.unbounded
+  ): { stream: AsyncStream<T>; producer: AsyncStreamProducer<T> } {
+    let producer: AsyncStreamProducer<T>;
+    const stream = new AsyncStream<T>((p) => (producer = p), policy);
+    return { stream, producer: producer! };
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<T, undefined> {
+    if (this.iterated) {
+      throw new Error("AsyncStream supports only a single consumer.");
+    }
+    this.iterated = true;
+    const storage = this.storage;
+    return {
+      next: () => storage.next(),
+      return: async () => {
+        storage.cancel();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
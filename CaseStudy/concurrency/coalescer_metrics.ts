@@ -0,0 +1,121 @@
+/**
+ * What a `RequestCoalescer` reports about its flights. A flight is one underlying request
+ * started by a leader and shared with every follower that joined it while in flight.
+ * `at` is the coalescer's `scheduler` time, and `queueDepth` the number of waiters on the flight.
+ */
+export type CoalescerEvent =
+  | { type: "flightStarted"; key: unknown; at: number }
+  | { type: "followerJoined"; key: unknown; at: number; queueDepth: number }
+  | { type: "waiterCancelled"; key: unknown; at: number; queueDepth: number }
+  | {
+      type: "attemptFailed";
+      key: unknown;
+      at: number;
+      attempt: number;
+      error: unknown;
+    }
+  | {
+      type: "flightSettled";
+      key: unknown;
+      at: number;
+      outcome: "fulfilled" | "rejected" | "abandoned";
+      followers: number;
+      latency: number;
+      error?: unknown;
+    };
+
+/**
+ * Receives every `CoalescerEvent`. Without a sink, a coalescer builds no events at all.
+ */
+export interface CoalescerSink {
+  record(event: CoalescerEvent): void;
+}
+
+export type HistogramBucket = {
+  /** Upper bound (inclusive) of the bucket in milliseconds. */
+  le: number;
+  count: number;
+};
+
+const DEFAULT_LATENCY_BUCKETS = [10, 50, 100, 500, 1000, 5000, Infinity];
+
+/**
+ * Keeps every event in memory and derives metrics from them; meant for tests and demos.
+ */
+export class InMemorySink implements CoalescerSink {
+  public readonly events: CoalescerEvent[] = [];
+
+  public record(event: CoalescerEvent): void {
+    this.events.push(event);
+  }
+
+  private settled() {
+    return this.events.filter(
+      (event): event is Extract<CoalescerEvent, { type: "flightSettled" }> =>
+        event.type === "flightSettled"
+    );
+  }
+
+  public get leaderStarts(): number {
+    return this.events.filter(({ type }) => type === "flightStarted").length;
+  }
+
+  /** Number of followers that joined each settled flight, in settlement order. */
+  public get followerCounts(): number[] {
+    return this.settled().map(({ followers }) => followers);
+  }
+
+  /** Share of settled flights that were rejected. Abandoned flights do not count as errors. */
+  public get errorRate(): number {
+    const settled = this.settled();
+    if (!settled.length) return 0;
+    const rejected = settled.filter(({ outcome }) => outcome === "rejected");
+    return rejected.length / settled.length;
+  }
+
+  public get maxQueueDepth(): number {
+    return this.events.reduce(
+      (max, event) =>
+        "queueDepth" in event ? Math.max(max, event.queueDepth) : max,
+      0
+    );
+  }
+
+  public latencyHistogram(
+    bounds: number[] = DEFAULT_LATENCY_BUCKETS
+  ): HistogramBucket[] {
+    const buckets = bounds.map((le) => ({ le, count: 0 }));
+    for (const { latency } of this.settled()) {
+      const bucket = buckets.find(({ le }) => latency <= le);
+      if (bucket) bucket.count++;
+    }
+    return buckets;
+  }
+
+  public clear(): void {
+    this.events.length = 0;
+  }
+}
+
+/**
+ * Writes each event as one line of JSON, to the console unless told otherwise.
+ * Keys are stringified and errors reduced to their message so that every line parses.
+ */
+export class JsonLinesSink implements CoalescerSink {
+  constructor(
+    private readonly write: (line: string) => void = (line) => console.log(line)
+  ) {}
+
+  public record(event: CoalescerEvent): void {
+    const error = "error" in event ? event.error : undefined;
+    this.write(
+      JSON.stringify({
+        ...event,
+        key: String(event.key),
+        ...("error" in event && {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      })
+    );
+  }
+}
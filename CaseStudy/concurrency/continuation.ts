@@ -0,0 +1,232 @@
+/**
+ * Continuation represents a point in a program where execution can be paused and resumed at a later time.
+ * In computer science, continuations are a concept related to control flow, where a continuation represents
+ * the future of a computation (i.e., what should happen next). In this implementation, `Continuation` allows
+ * a promise to be explicitly resumed by either resolving it with a value or rejecting it with an error.
+ *
+ * @template T The type of value that the continuation will resolve to.
+ * @template U The type of error that the continuation may reject with.
+ * @extends {Promise<T>}
+ */
+export class Continuation<
+  T,
+  in TResolveParam extends T = T,
+  in URejectParam extends Error = Error
+> extends Promise<T> {
+  private readonly $_resolve: (
+    value: TResolveParam | PromiseLike<TResolveParam>
+  ) => void;
+  private readonly $_reject: (reason: URejectParam | unknown) => void;
+  private $_resumed: boolean = false;
+  public initialCallStack: Error["stack"];
+
+  constructor(
+    executor: ConstructorParameters<typeof Promise<T>>[0] = () => {}
+  ) {
+    let resolver: (value: TResolveParam | PromiseLike<TResolveParam>) => void;
+    let rejector: (reason: URejectParam | unknown) => void;
+
+    super((resolve, reject) => {
+      resolver = resolve;
+      rejector = reject;
+      return executor(resolve, reject);
+    });
+
+    this.$_resolve = resolver!;
+    this.$_reject = rejector!;
+
+    // Capture the initial call stack to preserve context in case of an error
+    this.initialCallStack = Error().stack?.split("\n").slice(2).join("\n");
+  }
+
+  public get isResumed(): boolean {
+    return this.$_resumed;
+  }
+
+  public resumeByReturning<TReturn extends TResolveParam>(
+    value: TReturn | PromiseLike<TReturn>
+  ): void {
+    this.$_resumed = true;
+    this.$_resolve(value);
+  }
+
+  public resumeByThrowing<TError extends URejectParam>(
+    error: TError | unknown
+  ): void {
+    this.$_resumed = true;
+    if (error instanceof Error) {
+      error.stack = [error.stack?.split("\n")[0], this.initialCallStack].join(
+        "\n"
+      );
+    }
+    this.$_reject(error);
+  }
+
+  /**
+   * Resumes the continuation by throwing an `AbortError` as soon as `signal` aborts,
+   * unless it has already been resumed. `onCancel` runs right before the rejection,
+   * which lets the owner of the continuation stop waiting on its behalf.
+   */
+  public cancelOn(signal: AbortSignal, onCancel?: () => void): this {
+    const abort = () => {
+      if (this.isResumed) return;
+      onCancel?.();
+      this.resumeByThrowing(new AbortError(signal.reason));
+    };
+    if (signal.aborted) {
+      abort();
+      return this;
+    }
+    const detach = () => signal.removeEventListener("abort", abort);
+    signal.addEventListener("abort", abort, { once: true });
+    this.then(detach, detach);
+    return this;
+  }
+}
+
+/**
+ * Thrown to a waiter that gave up through its `AbortSignal`.
+ * The signal's `reason` is preserved in `cause`.
+ */
+export class AbortError extends Error {
+  override name = "AbortError";
+
+  constructor(reason?: unknown) {
+    super("The operation was aborted.", { cause: reason });
+  }
+}
+
+export type ContinuationMisuse = {
+  kind: "doubleResume" | "pendingTimeout" | "leaked";
+  message: string;
+  initialCallStack: Error["stack"];
+};
+
+/**
+ * Thrown from the offending `resume...` call when a `CheckedContinuation` is resumed twice.
+ */
+export class ContinuationMisuseError extends Error {
+  override name = "ContinuationMisuseError";
+
+  constructor(public readonly misuse: ContinuationMisuse) {
+    super(`${misuse.message}\n${misuse.initialCallStack}`);
+  }
+}
+
+export interface CheckedContinuationOptions {
+  /** Whether a second resume throws `ContinuationMisuseError` or is only reported. Defaults to "throw". */
+  onDoubleResume?: "throw" | "report";
+  /** Reports the continuation if it is still pending after this many milliseconds. */
+  pendingTimeout?: number;
+  /** Defaults to `console.warn`. */
+  report?: (misuse: ContinuationMisuse) => void;
+}
+
+type LeakRecord = Pick<ContinuationMisuse, "initialCallStack"> & {
+  report: (misuse: ContinuationMisuse) => void;
+};
+
+/**
+ * Reports continuations that were garbage-collected before anyone resumed them.
+ * The held `LeakRecord` must not reference the continuation, or it would never be collected.
+ */
+const continuationLeakRegistry = new FinalizationRegistry<LeakRecord>(
+  ({ report, initialCallStack }) =>
+    report({
+      kind: "leaked",
+      message: "Continuation was garbage-collected without being resumed.",
+      initialCallStack,
+    })
+);
+
+/**
+ * A `Continuation` that checks its own usage, modeled after Swift's `CheckedContinuation`.
+ * A continuation must be resumed exactly once: resuming it twice throws (or is reported),
+ * and a continuation that stays pending past `pendingTimeout` or that is garbage-collected
+ * while unresumed is reported along with the call stack that created it.
+ *
+ * @template T The type of value that the continuation will resolve to.
+ */
+export class CheckedContinuation<T> extends Continuation<T> {
+  /**
+   * Promises derived through `then`/`catch`/`finally` are plain promises;
+   * otherwise every derived promise would be checked for leaks as well.
+   */
+  static override get [Symbol.species]() {
+    return Promise;
+  }
+
+  private readonly $_options: CheckedContinuationOptions;
+  private $_pendingTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: CheckedContinuationOptions = {}) {
+    super();
+    this.$_options = options;
+    const report = options.report ?? CheckedContinuation.defaultReport;
+    const { initialCallStack } = this;
+    continuationLeakRegistry.register(this, { report, initialCallStack }, this);
+    if (options.pendingTimeout !== undefined) {
+      const { pendingTimeout } = options;
+      this.$_pendingTimer = setTimeout(
+        () =>
+          report({
+            kind: "pendingTimeout",
+            message: `Continuation is still pending after ${pendingTimeout}ms.`,
+            initialCallStack,
+          }),
+        pendingTimeout
+      );
+    }
+  }
+
+  private static defaultReport(misuse: ContinuationMisuse): void {
+    console.warn(
+      `[${misuse.kind}] ${misuse.message}\n${misuse.initialCallStack}`
+    );
+  }
+
+  public override resumeByReturning<TReturn extends T>(
+    value: TReturn | PromiseLike<TReturn>
+  ): void {
+    if (this.checkResume()) super.resumeByReturning(value);
+  }
+
+  public override resumeByThrowing<TError extends Error>(
+    error: TError | unknown
+  ): void {
+    if (this.checkResume()) super.resumeByThrowing(error);
+  }
+
+  /**
+   * Returns whether this is the first resume, and stops watching the continuation if so.
+   */
+  private checkResume(): boolean {
+    if (this.isResumed) {
+      const misuse: ContinuationMisuse = {
+        kind: "doubleResume",
+        message: "Continuation was resumed more than once.",
+        initialCallStack: this.initialCallStack,
+      };
+      if (this.$_options.onDoubleResume === "report") {
+        (this.$_options.report ?? CheckedContinuation.defaultReport)(misuse);
+        return false;
+      }
+      throw new ContinuationMisuseError(misuse);
+    }
+    clearTimeout(this.$_pendingTimer);
+    continuationLeakRegistry.unregister(this);
+    return true;
+  }
+}
+
+/**
+ * Suspends until `body` resumes the given `CheckedContinuation`, like Swift's `withCheckedContinuation`.
+ */
+export function withCheckedContinuation<T>(
+  body: (continuation: CheckedContinuation<T>) => void,
+  options?: CheckedContinuationOptions
+): Promise<T> {
+  const continuation = new CheckedContinuation<T>(options);
+  body(continuation);
+  return continuation;
+}
@@ -0,0 +1,116 @@
+import { Continuation } from "./continuation";
+import { RequestCoalescer } from "./request_coalescer";
+import { realScheduler, Scheduler } from "./scheduler";
+
+/**
+ * Loads the values for `keys` in one go. The returned array must line up with `keys`;
+ * an `Error` in place of a value fails only the load of the corresponding key.
+ */
+export type BatchFunction<K, V> = (
+  keys: K[]
+) => Promise<ReadonlyArray<V | Error>>;
+
+export interface DataLoaderOptions<K> {
+  /** Collects loads for this many milliseconds. Defaults to the current tick. */
+  batchWindow?: number;
+  /** Dispatches a batch as soon as it holds this many keys. Defaults to no limit. */
+  maxBatchSize?: number;
+  /** Identity of a key for sharing results between concurrent loads. Defaults to the key itself. */
+  keyOf?: (key: K) => unknown;
+  /** Drives the `batchWindow`. Defaults to `realScheduler`. */
+  scheduler?: Scheduler;
+}
+
+type Batch<K, V> = {
+  keys: K[];
+  continuations: Continuation<V>[];
+  dispatched: boolean;
+};
+
+/**
+ * A DataLoader-style batcher. `load(key)` calls made within the same tick (or `batchWindow`)
+ * are collected into a single `batchFn(keys)` call, and every caller's `Continuation` is
+ * resumed with its own element of the result.
+ *
+ * Loads go through a `RequestCoalescer`, so concurrent loads of the same key share one slot
+ * in the batch and one result, exactly like coalesced requests do.
+ *
+ * @template K The type of the keys.
+ * @template V The type of the loaded values.
+ */
+export class DataLoader<K, V> {
+  private batch: Batch<K, V> | undefined;
+  private readonly coalescer: RequestCoalescer<V, [key: K]>;
+
+  constructor(
+    private readonly batchFn: BatchFunction<K, V>,
+    private readonly options: DataLoaderOptions<K> = {}
+  ) {
+    this.coalescer = new RequestCoalescer((key: K) => this.enqueue(key), {
+      keyOf: options.keyOf,
+      scheduler: options.scheduler,
+    });
+  }
+
+  public load(key: K): Promise<V> {
+    return this.coalescer.request(key);
+  }
+
+  /**
+   * Same as `load()`, except that the caller stops waiting with an `AbortError` once `signal` aborts.
+   */
+  public loadWithSignal(signal: AbortSignal | undefined, key: K): Promise<V> {
+    return this.coalescer.requestWithSignal(signal, key);
+  }
+
+  public loadMany(keys: K[]): Promise<V[]> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  private enqueue(key: K): Continuation<V> {
+    const cont = new Continuation<V>();
+    let batch = this.batch;
+    if (!batch) {
+      batch = { keys: [], continuations: [], dispatched: false };
+      this.batch = batch;
+      this.schedule(batch);
+    }
+    batch.keys.push(key);
+    batch.continuations.push(cont);
+    const { maxBatchSize = Infinity } = this.options;
+    if (batch.keys.length >= maxBatchSize) this.dispatch(batch);
+    return cont;
+  }
+
+  private schedule(batch: Batch<K, V>): void {
+    const { batchWindow, scheduler = realScheduler } = this.options;
+    if (batchWindow === undefined) {
+      queueMicrotask(() => this.dispatch(batch));
+    } else {
+      scheduler.setTimeout(() => this.dispatch(batch), batchWindow);
+    }
+  }
+
+  private async dispatch(batch: Batch<K, V>): Promise<void> {
+    // A batch that filled up early has already been dispatched by the time its timer fires.
+    if (batch.dispatched) return;
+    batch.dispatched = true;
+    if (this.batch === batch) this.batch = undefined;
+
+    const { keys, continuations } = batch;
+    try {
+      const values = await this.batchFn(keys);
+      if (values.length !== keys.length) {
+        throw new TypeError(
+          `Batch function returned ${values.length} values for ${keys.length} keys.`
+        );
+      }
+      values.forEach((value, i) => {
+        if (value instanceof Error) continuations[i].resumeByThrowing(value);
+        else continuations[i].resumeByReturning(value);
+      });
+    } catch (e) {
+      continuations.forEach((cont) => cont.resumeByThrowing(e));
+    }
+  }
+}
@@ -0,0 +1,468 @@
+import { CoalescerSink } from "./coalescer_metrics";
+import {
+  AbortError,
+  CheckedContinuation,
+  CheckedContinuationOptions,
+  Continuation,
+} from "./continuation";
+import { realScheduler, Scheduler, sleep } from "./scheduler";
+
+/**
+ * Thrown when a single attempt of a coalesced request exceeds the retry policy's `timeout`.
+ */
+export class TimeoutError extends Error {
+  override name = "TimeoutError";
+
+  constructor(public readonly timeout: number) {
+    super(`The attempt timed out after ${timeout}ms.`);
+  }
+}
+
+/**
+ * Thrown to every waiter of a coalesced request when the fetched response fails to decode.
+ * The raw response is preserved in `response` and the decoder's own error in `cause`.
+ *
+ * @template R The type of the raw response that failed to decode.
+ */
+export class DecodingError<R = unknown> extends Error {
+  override name = "DecodingError";
+
+  constructor(public readonly response: R, cause: unknown) {
+    super(
+      `Failed to decode response: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause }
+    );
+  }
+}
+
+export type Fetcher<A extends unknown[], R> = (...args: A) => Promise<R>;
+
+/**
+ * Converts (and validates) a raw response into the coalesced result.
+ * A decoder signals an invalid response by throwing.
+ */
+export type Decoder<R, T> = (response: R) => T | PromiseLike<T>;
+
+/**
+ * Derives the identity under which concurrent requests are coalesced.
+ * Requests whose keys are identical (by `Map` key equality) share one in-flight request.
+ */
+export type CoalescingKeyFunction<A extends unknown[]> = (
+  ...args: A
+) => unknown;
+
+/**
+ * Hands the flight's `AbortSignal` to the fetcher by returning the arguments with the signal in place,
+ * e.g. `([path, init], signal) => [path, { ...init, signal }]`.
+ */
+export type SignalBinder<A extends unknown[]> = (
+  args: A,
+  signal: AbortSignal
+) => A;
+
+export interface RequestCoalescerOptions<A extends unknown[], R, T> {
+  /** Defaults to the first argument passed to `request()`. */
+  keyOf?: CoalescingKeyFunction<A>;
+  /** Defaults to passing the fetched response through unchanged. */
+  decode?: Decoder<R, T>;
+  /** Defaults to leaving the arguments untouched, in which case the fetch itself is never aborted. */
+  bindSignal?: SignalBinder<A>;
+  /** Defaults to a single attempt without timeout. */
+  retry?: RetryPolicy;
+  /** Parks waiters in `CheckedContinuation`s with these options instead of plain `Continuation`s. */
+  checked?: CheckedContinuationOptions;
+  /** Drives per-attempt timeouts, backoff delays and jitter. Defaults to `realScheduler`. */
+  scheduler?: Scheduler;
+  /** Receives instrumentation events. Defaults to none, in which case nothing is measured. */
+  sink?: CoalescerSink;
+}
+
+/**
+ * Describes how the leader of a flight retries a failed request.
+ * Followers never retry on their own; they only observe the final outcome.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds. Defaults to 100. */
+  baseDelay?: number;
+  /** Growth factor of the delay between consecutive retries. Defaults to 2. */
+  factor?: number;
+  /** Upper bound of the delay between retries in milliseconds. Defaults to no bound. */
+  maxDelay?: number;
+  /** Picks a uniformly random delay in `[0, delay]` ("full jitter"). Defaults to true. */
+  jitter?: boolean;
+  /** Per-attempt timeout in milliseconds. An attempt that times out fails with `TimeoutError`. */
+  timeout?: number;
+  /** Defaults to retrying every error except `DecodingError`. */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+const NO_RETRY: RetryPolicy = { maxAttempts: 1 };
+
+function backoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number
+): number {
+  const { baseDelay = 100, factor = 2, maxDelay = Infinity } = policy;
+  const delay = Math.min(maxDelay, baseDelay * factor ** (attempt - 1));
+  return policy.jitter === false ? delay : random() * delay;
+}
+
+type Flight<T> = {
+  continuations: Continuation<T>[];
+  controller: AbortController;
+  followers: number;
+  startedAt: number;
+};
+
+/**
+ * A class that coalesces concurrent requests and returns a shared result once
+ * the first request completes. Prevents duplicate network requests by queuing
+ * subsequent requests and resolving them with the result of the first request.
+ *
+ * Only concurrent requests with the same key are coalesced; requests for different
+ * keys run independently, each with its own in-flight request and continuation queue.
+ *
+ * @template T The type of the result returned by the request.
+ * @template A The argument types of the underlying fetcher.
+ * @template R The type of the raw response before decoding.
+ */
+export class RequestCoalescer<T, A extends unknown[] = [], R = T> {
+  private flights: Map<unknown, Flight<T>> = new Map();
+  public readonly keyOf: CoalescingKeyFunction<A>;
+  private readonly decode: Decoder<R, T>;
+  private readonly bindSignal: SignalBinder<A>;
+  private readonly retry: RetryPolicy;
+  private readonly checked: CheckedContinuationOptions | undefined;
+  public readonly scheduler: Scheduler;
+  private readonly sink: CoalescerSink | undefined;
+
+  constructor(
+    fetcher: Fetcher<A, T>,
+    options?: RequestCoalescerOptions<A, T, T>
+  );
+  constructor(
+    fetcher: Fetcher<A, R>,
+    options: RequestCoalescerOptions<A, R, T> & { decode: Decoder<R, T> }
+  );
+  constructor(
+    private readonly fetcher: Fetcher<A, R>,
+    options: RequestCoalescerOptions<A, R, T> = {}
+  ) {
+    this.keyOf = options.keyOf ?? ((...args) => args[0]);
+    this.decode = options.decode ?? ((response) => response as unknown as T);
+    this.bindSignal = options.bindSignal ?? ((args) => args);
+    this.retry = options.retry ?? NO_RETRY;
+    this.checked = options.checked;
+    this.scheduler = options.scheduler ?? realScheduler;
+    this.sink = options.sink;
+  }
+
+  private coalesce(
+    id: unknown,
+    flight: Flight<T>,
+    signal?: AbortSignal
+  ): Continuation<T> {
+    const cont = this.checked
+      ? new CheckedContinuation<T>(this.checked)
+      : new Continuation<T>();
+    flight.continuations.push(cont);
+    if (signal) cont.cancelOn(signal, () => this.cancel(id, flight, cont));
+    return cont;
+  }
+
+  /**
+   * Takes a cancelled waiter out of its flight. The underlying fetch is aborted
+   * only once every waiter sharing it has cancelled.
+   */
+  private cancel(id: unknown, flight: Flight<T>, cont: Continuation<T>): void {
+    const index = flight.continuations.indexOf(cont);
+    if (index !== -1) flight.continuations.splice(index, 1);
+    // Optional calls skip evaluating their arguments, so without a sink no event is built.
+    this.sink?.record({
+      type: "waiterCancelled",
+      key: id,
+      at: this.scheduler.now(),
+      queueDepth: flight.continuations.length,
+    });
+    if (flight.continuations.length) return;
+    if (this.flights.get(id) === flight) this.flights.delete(id);
+    flight.controller.abort();
+    this.recordSettled(id, flight, "abandoned");
+  }
+
+  private recordSettled(
+    id: unknown,
+    flight: Flight<T>,
+    outcome: "fulfilled" | "rejected" | "abandoned",
+    error?: unknown
+  ): void {
+    if (!this.sink) return;
+    const at = this.scheduler.now();
+    this.sink.record({
+      type: "flightSettled",
+      key: id,
+      at,
+      outcome,
+      followers: flight.followers,
+      latency: at - flight.startedAt,
+      ...(outcome === "rejected" && { error }),
+    });
+  }
+
+  private async decodeResponse(response: R): Promise<T> {
+    try {
+      return await this.decode(response);
+    } catch (e) {
+      throw new DecodingError(response, e);
+    }
+  }
+
+  /**
+   * Runs a single attempt, aborting it when either the flight is abandoned or
+   * the retry policy's `timeout` elapses.
+   */
+  private async attempt(flight: Flight<T>, args: A): Promise<T> {
+    const { timeout } = this.retry;
+    const controller = new AbortController();
+    const abandon = () => controller.abort(flight.controller.signal.reason);
+    flight.controller.signal.addEventListener("abort", abandon, { once: true });
+    let timer: unknown;
+    try {
+      const fetching = (async () =>
+        this.decodeResponse(
+          await this.fetcher(...this.bindSignal(args, controller.signal))
+        ))();
+      if (timeout === undefined) return await fetching;
+      return await Promise.race([
+        fetching,
+        new Promise<never>((_, reject) => {
+          timer = this.scheduler.setTimeout(() => {
+            const error = new TimeoutError(timeout);
+            controller.abort(error);
+            reject(error);
+          }, timeout);
+        }),
+      ]);
+    } finally {
+      this.scheduler.clearTimeout(timer);
+      flight.controller.signal.removeEventListener("abort", abandon);
+    }
+  }
+
+  private async fly(id: unknown, flight: Flight<T>, args: A): Promise<void> {
+    const {
+      maxAttempts,
+      isRetryable = (e: unknown) => !(e instanceof DecodingError),
+    } = this.retry;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const payload = await this.attempt(flight, args);
+          // An abandoned flight has already rejected all of its waiters.
+          if (this.flights.get(id) === flight) {
+            this.recordSettled(id, flight, "fulfilled");
+            this.resumeByReturning(id, payload);
+          }
+          return;
+        } catch (e) {
+          this.sink?.record({
+            type: "attemptFailed",
+            key: id,
+            at: this.scheduler.now(),
+            attempt,
+            error: e,
+          });
+          if (
+            flight.controller.signal.aborted ||
+            attempt >= maxAttempts ||
+            !isRetryable(e, attempt)
+          ) {
+            throw e;
+          }
+          await sleep(
+            this.scheduler,
+            backoffDelay(this.retry, attempt, () => this.scheduler.random()),
+            flight.controller.signal
+          );
+          if (flight.controller.signal.aborted) throw e;
+        }
+      }
+    } catch (e) {
+      if (this.flights.get(id) === flight) {
+        this.recordSettled(id, flight, "rejected", e);
+        this.resumeByThrowing(id, e);
+      }
+    }
+  }
+
+  public request(...args: A): Promise<T> {
+    return this.requestWithSignal(undefined, ...args);
+  }
+
+  /**
+   * Same as `request()`, except that the caller stops waiting with an `AbortError`
+   * once `signal` aborts. Other callers sharing the same flight are unaffected.
+   */
+  public async requestWithSignal(
+    signal: AbortSignal | undefined,
+    ...args: A
+  ): Promise<T> {
+    if (signal?.aborted) throw new AbortError(signal.reason);
+    const id = this.keyOf(...args);
+    let flight = this.flights.get(id);
+    // The presence of a flight for `id` acts as the lock for that key.
+    if (!flight) {
+      flight = {
+        continuations: [],
+        controller: new AbortController(),
+        followers: 0,
+        startedAt: this.sink ? this.scheduler.now() : 0,
+      };
+      this.flights.set(id, flight);
+      this.sink?.record({
+        type: "flightStarted",
+        key: id,
+        at: flight.startedAt,
+      });
+      this.fly(id, flight, args);
+      return this.coalesce(id, flight, signal);
+    }
+    flight.followers++;
+    const cont = this.coalesce(id, flight, signal);
+    this.sink?.record({
+      type: "followerJoined",
+      key: id,
+      at: this.scheduler.now(),
+      queueDepth: flight.continuations.length,
+    });
+    return cont;
+  }
+
+  public resumeByReturning(id: unknown, result: T): void {
+    const flight = this.flights.get(id);
+    this.flights.delete(id);
+    flight?.continuations.forEach((cont) => cont.resumeByReturning(result));
+  }
+
+  public resumeByThrowing(id: unknown, e: Error | unknown): void {
+    const flight = this.flights.get(id);
+    this.flights.delete(id);
+    flight?.continuations.forEach((cont) => cont.resumeByThrowing(e));
+  }
+}
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+export interface CacheOptions<T> {
+  /** Time to live in milliseconds, either fixed or computed per key and value. */
+  ttl: number | ((id: unknown, value: T) => number);
+  /** Serve an expired value immediately while one background refresh runs. */
+  staleWhileRevalidate?: boolean;
+  /** Least recently used entries are evicted once the cache grows past this size. */
+  maxEntries?: number;
+}
+
+/**
+ * A result cache layered on top of a `RequestCoalescer`.
+ * Fresh entries are served without a request. Expired entries are either refetched,
+ * or with `staleWhileRevalidate` returned as they are while exactly one background
+ * refresh per key runs through the underlying coalescer.
+ *
+ * Entries are keyed by the coalescer's `keyOf`, so the cache and the coalescer agree
+ * on which requests are "the same", and they age on the coalescer's `scheduler` clock.
+ *
+ * @template T The type of the cached result.
+ * @template A The argument types of the underlying fetcher.
+ */
+export class CachedRequestCoalescer<T, A extends unknown[]> {
+  // `Map` preserves insertion order, so re-inserting on access keeps the LRU entry first.
+  private entries: Map<unknown, CacheEntry<T>> = new Map();
+  private revalidating: Set<unknown> = new Set();
+  // Bumped by `invalidate` and `prime`, so that loads started before them are not stored.
+  private generations: Map<unknown, number> = new Map();
+
+  constructor(
+    private readonly coalescer: RequestCoalescer<T, A, any>,
+    private readonly options: CacheOptions<T>
+  ) {}
+
+  public request(...args: A): Promise<T> {
+    return this.requestWithSignal(undefined, ...args);
+  }
+
+  public async requestWithSignal(
+    signal: AbortSignal | undefined,
+    ...args: A
+  ): Promise<T> {
+    if (signal?.aborted) throw new AbortError(signal.reason);
+    const id = this.coalescer.keyOf(...args);
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.touch(id, entry);
+      if (this.coalescer.scheduler.now() < entry.expiresAt) return entry.value;
+      if (this.options.staleWhileRevalidate) {
+        this.revalidate(id, args);
+        return entry.value;
+      }
+      this.entries.delete(id);
+    }
+    return this.load(id, args, signal);
+  }
+
+  public invalidate(id: unknown): void {
+    this.bumpGeneration(id);
+    this.entries.delete(id);
+  }
+
+  public prime(id: unknown, value: T): void {
+    this.bumpGeneration(id);
+    this.store(id, value);
+  }
+
+  private bumpGeneration(id: unknown): void {
+    this.generations.set(id, (this.generations.get(id) ?? 0) + 1);
+  }
+
+  private async load(id: unknown, args: A, signal?: AbortSignal): Promise<T> {
+    const generation = this.generations.get(id);
+    const value = await this.coalescer.requestWithSignal(signal, ...args);
+    if (this.generations.get(id) === generation) this.store(id, value);
+    return value;
+  }
+
+  private revalidate(id: unknown, args: A): void {
+    if (this.revalidating.has(id)) return;
+    this.revalidating.add(id);
+    this.load(id, args)
+      .catch(() => {
+        // A failed refresh keeps serving the stale value until the next attempt.
+      })
+      .finally(() => this.revalidating.delete(id));
+  }
+
+  private store(id: unknown, value: T): void {
+    const { ttl, maxEntries = Infinity } = this.options;
+    const lifetime = typeof ttl === "function" ? ttl(id, value) : ttl;
+    this.touch(id, {
+      value,
+      expiresAt: this.coalescer.scheduler.now() + lifetime,
+    });
+    for (const lru of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(lru);
+    }
+  }
+
+  private touch(id: unknown, entry: CacheEntry<T>): void {
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+  }
+}
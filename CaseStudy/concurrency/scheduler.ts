@@ -0,0 +1,149 @@
+export type TimerHandle = unknown;
+
+/**
+ * The source of time, timers and randomness for everything that waits or jitters.
+ * Swapping `realScheduler` for a `VirtualScheduler` makes timing-dependent code deterministic.
+ */
+export interface Scheduler {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle | undefined): void;
+  /** A number in `[0, 1)`, like `Math.random()`. */
+  random(): number;
+}
+
+export const realScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout> | undefined),
+  random: () => Math.random(),
+};
+
+/**
+ * Resolves after `ms` milliseconds of `scheduler` time, or as soon as `signal` aborts.
+ */
+export function sleep(
+  scheduler: Scheduler,
+  ms: number,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve) => {
+    const wake = () => {
+      scheduler.clearTimeout(timer);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = scheduler.setTimeout(wake, ms);
+    signal?.addEventListener("abort", wake, { once: true });
+  });
+}
+
+type VirtualTimer = {
+  id: number;
+  due: number;
+  callback: () => void;
+};
+
+/**
+ * Lets every pending promise callback run. A (real) macrotask only starts
+ * once the microtask queue has been drained.
+ */
+function flushMicrotasks(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * A `Scheduler` driven by a virtual clock instead of wall-clock time.
+ * Time only moves through `advanceBy()`, `runNext()` or `runUntilIdle()`, which run due timers
+ * in order of their due time (ties in the order they were scheduled) and let promise callbacks
+ * settle between two timers. `random()` is a seeded PRNG, so a seed always reproduces the same
+ * interleaving, while explicit delays pin down an interleaving by hand.
+ */
+export class VirtualScheduler implements Scheduler {
+  private clock: number = 0;
+  private nextId: number = 0;
+  private timers: VirtualTimer[] = [];
+  private seed: number;
+
+  constructor(seed: number = 0) {
+    this.seed = seed >>> 0;
+  }
+
+  public get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  public now(): number {
+    return this.clock;
+  }
+
+  public setTimeout(callback: () => void, ms: number): TimerHandle {
+    const timer = {
+      id: this.nextId++,
+      due: this.clock + Math.max(0, ms),
+      callback,
+    };
+    const index = this.timers.findIndex(({ due }) => due > timer.due);
+    if (index === -1) this.timers.push(timer);
+    else this.timers.splice(index, 0, timer);
+    return timer.id;
+  }
+
+  public clearTimeout(handle: TimerHandle | undefined): void {
+    const index = this.timers.findIndex(({ id }) => id === handle);
+    if (index !== -1) this.timers.splice(index, 1);
+  }
+
+  /**
+   * mulberry32: small, fast and good enough to spread out jitter and thread delays.
+   */
+  public random(): number {
+    this.seed = (this.seed + 0x6d2b79f5) >>> 0;
+    let t = this.seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Runs the next timer, moving the clock to its due time.
+   * Returns false if there was no timer to run.
+   */
+  public async runNext(): Promise<boolean> {
+    await flushMicrotasks();
+    const timer = this.timers.shift();
+    if (!timer) return false;
+    this.clock = timer.due;
+    timer.callback();
+    await flushMicrotasks();
+    return true;
+  }
+
+  /**
+   * Runs every timer that falls due within the next `ms` milliseconds, including timers
+   * scheduled along the way, then moves the clock to exactly `now() + ms`.
+   */
+  public async advanceBy(ms: number): Promise<void> {
+    const target = this.clock + ms;
+    await flushMicrotasks();
+    while (this.timers.length && this.timers[0].due <= target) {
+      await this.runNext();
+    }
+    this.clock = target;
+  }
+
+  /**
+   * Runs timers until none are left. Throws after `maxTimers` timers,
+   * since a timer that keeps rescheduling itself would never become idle.
+   */
+  public async runUntilIdle(maxTimers: number = 10000): Promise<void> {
+    for (let count = 0; await this.runNext(); count++) {
+      if (count >= maxTimers) {
+        throw new Error(
+          `Scheduler is still busy after running ${maxTimers} timers.`
+        );
+      }
+    }
+  }
+}
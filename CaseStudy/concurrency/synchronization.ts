@@ -0,0 +1,130 @@
+import { AbortError, Continuation } from "./continuation";
+
+/**
+ * Parks the caller in `waiters` until someone resumes it. A waiter that gives up
+ * through `signal` is rejected with an `AbortError` and taken out of the queue.
+ */
+function park(
+  waiters: Continuation<void>[],
+  signal?: AbortSignal
+): Continuation<void> {
+  const cont = new Continuation<void>();
+  waiters.push(cont);
+  if (signal) {
+    cont.cancelOn(signal, () => {
+      const index = waiters.indexOf(cont);
+      if (index !== -1) waiters.splice(index, 1);
+    });
+  }
+  return cont;
+}
+
+/**
+ * A counting semaphore. Waiters are woken strictly in FIFO order, and a released permit
+ * is handed straight to the longest waiter, so a late `tryAcquire()` can never barge in.
+ */
+export class AsyncSemaphore {
+  private waiters: Continuation<void>[] = [];
+
+  constructor(private permits: number) {}
+
+  public get available(): number {
+    return this.permits;
+  }
+
+  public get waiting(): number {
+    return this.waiters.length;
+  }
+
+  public tryAcquire(): boolean {
+    if (this.permits === 0 || this.waiters.length) return false;
+    this.permits--;
+    return true;
+  }
+
+  public async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw new AbortError(signal.reason);
+    if (this.tryAcquire()) return;
+    return park(this.waiters, signal);
+  }
+
+  public release(): void {
+    const next = this.waiters.shift();
+    if (next) next.resumeByReturning(undefined);
+    else this.permits++;
+  }
+
+  public async withPermit<T>(
+    body: () => T | PromiseLike<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await body();
+    } finally {
+      this.release();
+    }
+  }
+}
+
+/**
+ * A mutual exclusion lock; a semaphore with a single permit.
+ */
+export class AsyncMutex {
+  private readonly semaphore = new AsyncSemaphore(1);
+
+  public get isLocked(): boolean {
+    return this.semaphore.available === 0;
+  }
+
+  public tryAcquire(): boolean {
+    return this.semaphore.tryAcquire();
+  }
+
+  public acquire(signal?: AbortSignal): Promise<void> {
+    return this.semaphore.acquire(signal);
+  }
+
+  public release(): void {
+    this.semaphore.release();
+  }
+
+  public runExclusive<T>(
+    body: () => T | PromiseLike<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this.semaphore.withPermit(body, signal);
+  }
+}
+
+/**
+ * A condition variable. `wait()` parks the caller until `signal()` wakes the longest waiter
+ * or `broadcast()` wakes all of them.
+ *
+ * When given the `mutex` guarding the condition, `wait()` releases it while parked and
+ * re-acquires it before returning (or throwing), like a classic monitor.
+ */
+export class Condition {
+  private waiters: Continuation<void>[] = [];
+
+  public async wait(mutex?: AsyncMutex, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw new AbortError(signal.reason);
+    const cont = park(this.waiters, signal);
+    mutex?.release();
+    try {
+      await cont;
+    } finally {
+      await mutex?.acquire();
+    }
+  }
+
+  public signal(): void {
+    this.waiters.shift()?.resumeByReturning(undefined);
+  }
+
+  public broadcast(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((cont) => cont.resumeByReturning(undefined));
+  }
+}
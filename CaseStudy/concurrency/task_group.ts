@@ -0,0 +1,162 @@
+import { Continuation } from "./continuation";
+import { AsyncSemaphore } from "./synchronization";
+
+type Settled<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+/**
+ * A child task. It receives the group's `AbortSignal` and is expected to stop
+ * (typically by rejecting with an `AbortError`) once the signal aborts.
+ */
+export type ChildTask<T> = (signal: AbortSignal) => T | PromiseLike<T>;
+
+export interface TaskGroupOptions {
+  /** Cancels the whole group when this (parent) signal aborts. */
+  signal?: AbortSignal;
+  /** Runs at most this many children at once; the rest wait for a slot. Defaults to no limit. */
+  maxConcurrency?: number;
+}
+
+/**
+ * A scope of child tasks, modeled after Swift's `ThrowingTaskGroup`.
+ * The first child to fail cancels all of its siblings through the group's `AbortSignal`,
+ * and results can be consumed in completion order through `next()` or `for await`.
+ *
+ * Groups are meant to be used through `withTaskGroup`, which guarantees that no child
+ * outlives the scope that started it.
+ *
+ * @template T The type of the children's results.
+ */
+export class TaskGroup<T> implements AsyncIterable<T> {
+  private readonly controller = new AbortController();
+  private readonly semaphore: AsyncSemaphore | undefined;
+  private running: number = 0;
+  private completed: Settled<T>[] = [];
+  private waiters: Continuation<void>[] = [];
+
+  constructor(options: TaskGroupOptions = {}) {
+    if (options.maxConcurrency !== undefined) {
+      this.semaphore = new AsyncSemaphore(options.maxConcurrency);
+    }
+  }
+
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  public get isCancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /** Whether every child has completed and every result has been consumed. */
+  public get isEmpty(): boolean {
+    return this.running === 0 && this.completed.length === 0;
+  }
+
+  public addTask(task: ChildTask<T>): void {
+    this.running++;
+    this.run(task).then((settled) => {
+      this.running--;
+      if (!settled.ok) this.cancelAll(settled.error);
+      this.completed.push(settled);
+      this.waiters
+        .splice(0)
+        .forEach((cont) => cont.resumeByReturning(undefined));
+    });
+  }
+
+  public cancelAll(reason?: unknown): void {
+    this.controller.abort(reason);
+  }
+
+  private async run(task: ChildTask<T>): Promise<Settled<T>> {
+    try {
+      await this.semaphore?.acquire(this.signal);
+      try {
+        return { ok: true, value: await task(this.signal) };
+      } finally {
+        this.semaphore?.release();
+      }
+    } catch (error) {
+      return { ok: false, error };
+    }
+  }
+
+  private async nextSettled(): Promise<Settled<T> | undefined> {
+    while (!this.completed.length) {
+      if (this.running === 0) return undefined;
+      const cont = new Continuation<void>();
+      this.waiters.push(cont);
+      await cont;
+    }
+    return this.completed.shift();
+  }
+
+  /**
+   * Resolves with the result of the next child to complete, or rejects with its error.
+   * Resolves with `undefined` once no children are left.
+   */
+  public async next(): Promise<T | undefined> {
+    const settled = await this.nextSettled();
+    if (!settled) return undefined;
+    if (!settled.ok) throw settled.error;
+    return settled.value;
+  }
+
+  /**
+   * Collects the remaining results in completion order. On the first failure the group
+   * is cancelled, the other children are awaited, and the failure is rethrown.
+   */
+  public async waitForAll(): Promise<T[]> {
+    const values: T[] = [];
+    for (let settled; (settled = await this.nextSettled()); ) {
+      if (!settled.ok) {
+        this.cancelAll(settled.error);
+        await this.drain();
+        throw settled.error;
+      }
+      values.push(settled.value);
+    }
+    return values;
+  }
+
+  /**
+   * Awaits every child, discarding results and errors alike.
+   */
+  public async drain(): Promise<void> {
+    while (await this.nextSettled());
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for (let settled; (settled = await this.nextSettled()); ) {
+      if (!settled.ok) throw settled.error;
+      yield settled.value;
+    }
+  }
+}
+
+/**
+ * Runs `body` with a fresh `TaskGroup` and returns its result once every child has completed.
+ * Results that `body` did not consume are still checked: the first failure among them is rethrown.
+ * If `body` throws, the group is cancelled and its children awaited before the error propagates.
+ */
+export async function withTaskGroup<T, R>(
+  body: (group: TaskGroup<T>) => R | PromiseLike<R>,
+  options: TaskGroupOptions = {}
+): Promise<R> {
+  const group = new TaskGroup<T>(options);
+  const { signal } = options;
+  const cancel = () => group.cancelAll(signal?.reason);
+  if (signal?.aborted) cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    const result = await body(group);
+    await group.waitForAll();
+    return result;
+  } catch (e) {
+    group.cancelAll(e);
+    await group.drain();
+    throw e;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+}
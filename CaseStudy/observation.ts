@@ -1,3 +1,6 @@
+import { AsyncStream, BufferingPolicy } from "./concurrency/async_stream";
+import { realScheduler, sleep } from "./concurrency/scheduler";
+
 function UUID() {
   return crypto.randomUUID();
 }
@@ -8,76 +11,239 @@ type KeyPath<T> = {
   [K in keyof T]: K extends string ? K : never;
 }[keyof T];
 
+/**
+ * "DeepKeyPath" lists every dotted path through nested objects, e.g. for a member:
+ * "name" | "account" | "account.permission" | "account.permission.level" | ...
+ * Methods and the "_$"-prefixed observation internals are left out, and the recursion
+ * stops after a few levels so that self-referencing types still terminate.
+ * */
+type PrevDepth = [never, 0, 1, 2, 3, 4];
+/**
+ * Observable collections report every read and every structural mutation under this single
+ * key path, e.g. "suspects.contents" for an array field named "suspects".
+ * */
+const COLLECTION_KEY_PATH = "contents";
+type Collection =
+  | ReadonlyArray<unknown>
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>;
+type DeepKeyPath<T, Depth extends number = 5> = [Depth] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]: K extends `_$${string}`
+        ? never
+        : T[K] extends Function
+        ? never
+        : T[K] extends Collection
+        ? K | `${K}.${typeof COLLECTION_KEY_PATH}`
+        : T[K] extends object
+        ? K | `${K}.${DeepKeyPath<T[K], PrevDepth[Depth]>}`
+        : K;
+    }[keyof T & string];
+
+/**
+ * What an observer receives about a mutation, similar to the "oldValue"/"newValue"
+ * available in Swift's willSet/didSet property observers.
+ * */
+type ObservedChange<TSubject = any> = {
+  subject: TSubject;
+  keyPath: string;
+  oldValue: unknown;
+  newValue: unknown;
+  collectionChange?: CollectionChange;
+  /**
+   * Set when a @Computed getter was invalidated. Its value derives from other properties,
+   * so the change is neither recorded (see MutationRecorder) nor rolled back.
+   * */
+  computed?: boolean;
+  /** Set when an accessor with a setter was assigned (see "observeAccessors"). */
+  accessor?: boolean;
+};
+type ObservedValues = Omit<ObservedChange, "subject" | "keyPath">;
+/**
+ * What a mutation of an observable collection did: indices for arrays, keys for Maps and
+ * values for Sets. "removed" indices refer to the array before the mutation, "inserted" and
+ * "updated" ones to the array after it.
+ * */
+type CollectionChange = {
+  inserted: unknown[];
+  removed: unknown[];
+  updated: unknown[];
+};
+type ObservationHandler = (change: ObservedChange) => void;
+/**
+ * "willChange" runs before the mutation is applied (after it, for accessors and in transactions)
+ * and "didChange" right after it.
+ * An observation fires once: it is cancelled after its last handler has run.
+ * */
+type ObservationHandlers = {
+  willChange?: ObservationHandler;
+  didChange?: ObservationHandler;
+};
+
+/**
+ * The part of Node's AsyncLocalStorage that asynchronous tracking relies on.
+ * */
+interface AsyncScopeStorage<T> {
+  run<R>(store: T, callback: () => R): R;
+  exit<R>(callback: () => R): R;
+  getStore(): T | undefined;
+}
+
+/**
+ * The innermost synchronous tracking scope; each scope restores the enclosing one on exit.
+ * Asynchronous scopes live in "ASYNC_ACCESS_LIST" instead, which follows them across "await";
+ * it only exists once "withObservationTrackingAsync" has been used.
+ * */
 var GLOBAL_ACCESS_LIST: Maybe<AccessList>;
+var ASYNC_ACCESS_LIST: Maybe<AsyncScopeStorage<AccessList>>;
+var GLOBAL_TRANSACTION: Maybe<Transaction>;
+const OBJECT_IDENTIFIERS = new WeakMap<object, ObjectIdentifier>();
+
+/**
+ * Returns a stable identifier for the given object, similar to Swift's `ObjectIdentifier`.
+ * The identifier is assigned on first use and kept in a WeakMap, so it lives exactly as long as the object.
+ */
+function ObjectIdentifier(object: object): ObjectIdentifier {
+  let id = OBJECT_IDENTIFIERS.get(object);
+  if (!id) {
+    id = UUID();
+    OBJECT_IDENTIFIERS.set(object, id);
+  }
+  return id;
+}
 
 interface Observable {}
 class Observation {
   id: ObservationID = UUID();
   keyPaths: Set<string>;
-  closure: () => void;
+  handlers: ObservationHandlers;
+  // observations of the rest of a dotted key path, registered on nested Observables
+  children: [ObservationRegistrar, ObservationID][] = [];
 
-  constructor(keyPaths: Set<string>, closure: () => void) {
+  constructor(keyPaths: Set<string>, handlers: ObservationHandlers) {
     this.keyPaths = keyPaths;
-    this.closure = closure;
+    this.handlers = handlers;
   }
 }
-class ObservationRegistrar {
+class ObservationRegistrar<TSubject extends object = any> {
   lookups: Record<string, Set<ObservationID>> = {};
   observations: Record<ObservationID, Observation> = {};
+  subject: Maybe<TSubject>;
+
+  constructor(subject?: TSubject) {
+    this.subject = subject;
+  }
 
   access<TSubject extends Observable>(
     _subject: TSubject,
     keyPath: KeyPath<TSubject>
   ) {
-    if (GLOBAL_ACCESS_LIST) GLOBAL_ACCESS_LIST.trackAccess(this, keyPath);
+    currentAccessList()?.trackAccess(this, keyPath);
     console.log(`access(${keyPath}) [${Object.keys(this.lookups)}]`);
   }
 
   withMutation<TSubject, TMutated>(
-    _subject: TSubject,
+    subject: TSubject,
     keyPath: KeyPath<TSubject>,
-    mutate: () => TMutated
-  ): Maybe<TMutated> {
+    mutate: () => TMutated,
+    values: ObservedValues = {
+      oldValue: undefined,
+      newValue: undefined,
+    }
+  ): TMutated {
     console.log(`withMutation(${keyPath}) [${Object.keys(this.lookups)}]`);
-    const observationIds = this.lookups[keyPath];
-    if (observationIds) {
-      for (const observationId of observationIds) {
-        const observation = this.observations[observationId];
-        if (observation) {
-          observation.closure();
-          for (const eachKeyPath of observation.keyPaths) {
-            this.lookups[eachKeyPath]?.delete(observation.id);
-          }
-        }
+    const change: ObservedChange<TSubject> = { subject, keyPath, ...values };
+    const transaction = GLOBAL_TRANSACTION;
+    // a rollback restores values that were accepted before
+    if (!transaction?.rollingBack) validate(subject, keyPath, values.newValue);
+    if (transaction) {
+      const result = attemptMutation(keyPath, values.newValue, mutate);
+      transaction.record(this, change);
+      return result;
+    }
+
+    // handlers may cancel other observations, so iterate over a copy and skip cancelled ones
+    const observationIds = [...(this.lookups[keyPath] ?? [])];
+    for (const observationId of observationIds) {
+      const observation = this.observations[observationId];
+      if (observation) {
+        observation.handlers.willChange?.(change);
+        if (!observation.handlers.didChange) this.cancel(observation.id);
       }
     }
 
-    try {
-      return mutate();
-    } catch {
-      return null;
+    const result = attemptMutation(keyPath, values.newValue, mutate);
+    recordMutations([change]);
+
+    for (const observationId of observationIds) {
+      const observation = this.observations[observationId];
+      if (observation) {
+        observation.handlers.didChange?.(change);
+        this.cancel(observation.id);
+      }
     }
+    return result;
   }
 
   cancel(observationId: ObservationID) {
     const observation = this.observations[observationId];
     if (observation) {
+      delete this.observations[observationId];
       for (const keyPath of observation.keyPaths) {
-        this.lookups[keyPath].delete(observation.id);
-        if (!this.lookups[keyPath].size) delete this.lookups[keyPath];
+        this.lookups[keyPath]?.delete(observation.id);
+        if (!this.lookups[keyPath]?.size) delete this.lookups[keyPath];
+      }
+      for (const [registrar, childId] of observation.children) {
+        registrar.cancel(childId);
       }
-      delete this.observations[observationId];
     }
   }
 
-  registerOnChange(keyPaths: Set<string>, onChange: () => void): ObservationID {
-    const observation = new Observation(keyPaths, onChange);
+  /**
+   * Registers "onChange" for the given key paths of the subject.
+   * A plain function is called before the mutation, like a "willChange" handler.
+   * A dotted key path such as "account.permission.level" observes its first key here and
+   * the rest on the nested Observable, so that a mutation anywhere along the chain fires
+   * "onChange" (once) and cancels the observation as a whole.
+   * */
+  registerOnChange(
+    keyPaths: Set<DeepKeyPath<TSubject>>,
+    onChange: ObservationHandler | ObservationHandlers
+  ): ObservationID {
+    const handlers =
+      typeof onChange === "function" ? { willChange: onChange } : onChange;
+    const observation = new Observation(new Set(), handlers);
     this.observations[observation.id] = observation;
-    for (const keyPath of keyPaths) {
-      if (!this.lookups[keyPath]) {
-        this.lookups[keyPath] = new Set();
+    for (const keyPath of keyPaths as Set<string>) {
+      const [key, ...rest] = keyPath.split(".");
+      observation.keyPaths.add(key);
+      if (!this.lookups[key]) {
+        this.lookups[key] = new Set();
+      }
+      this.lookups[key].add(observation.id);
+
+      if (!rest.length) continue;
+      // reading the key may run a getter, so only do it for dotted key paths
+      const child = untracked(() => (this.subject as any)?.[key]);
+      if (isObservable(child)) {
+        const registrar: ObservationRegistrar = registrarOf(child);
+        const childId = registrar.registerOnChange(new Set([rest.join(".")]), {
+          willChange:
+            handlers.willChange &&
+            ((change) => {
+              handlers.willChange?.(change);
+              if (!handlers.didChange) this.cancel(observation.id);
+            }),
+          didChange:
+            handlers.didChange &&
+            ((change) => {
+              handlers.didChange?.(change);
+              this.cancel(observation.id);
+            }),
+        });
+        observation.children.push([registrar, childId]);
       }
-      this.lookups[keyPath].add(observation.id);
     }
     return observation.id;
   }
@@ -91,39 +257,520 @@ class Entry {
   }
 }
 
+/**
+ * Collects the key paths accessed within a tracking scope, grouped per registrar,
+ * so that a scope reading several properties of one object registers a single observation on it.
+ */
 class AccessList {
   entries: Record<ObjectIdentifier, Entry> = {};
   trackAccess(r: ObservationRegistrar, kp: string) {
-    let id = UUID();
+    const id = ObjectIdentifier(r);
     if (!this.entries[id]) this.entries[id] = new Entry(r);
     this.entries[id].keyPaths.add(kp);
   }
-  registerOnChange(thunk: () => void) {
+  merge(other: AccessList) {
+    for (const entry of Object.values(other.entries)) {
+      for (const keyPath of entry.keyPaths) {
+        this.trackAccess(entry.registrar, keyPath);
+      }
+    }
+  }
+  registerOnChange(
+    thunk: ObservationHandler,
+    delivery: ObservationDelivery,
+    signal?: AbortSignal
+  ) {
     const observationIds: Record<ObjectIdentifier, ObservationID> = {};
-    const processThunk = () => {
-      thunk();
+    const cancel = () => {
       for (const [key, value] of Object.entries(observationIds)) {
         const registrarId = key as ObjectIdentifier;
         const observationId = value as ObservationID;
         this.entries[registrarId]?.registrar.cancel(observationId);
       }
     };
+    const processThunk = (change: ObservedChange) => {
+      signal?.removeEventListener("abort", cancel);
+      thunk(change);
+      cancel();
+    };
     for (const [key, entry] of Object.entries(this.entries)) {
       const registrar = entry.registrar;
       const keyPaths = entry.keyPaths;
-      const observationId = registrar.registerOnChange(keyPaths, processThunk);
+      const observationId = registrar.registerOnChange(
+        keyPaths,
+        delivery === "willSet"
+          ? { willChange: processThunk }
+          : { didChange: processThunk }
+      );
       observationIds[key as ObjectIdentifier] = observationId;
     }
+    signal?.addEventListener("abort", cancel, { once: true });
+  }
+}
+
+/**
+ * Receives the mutations applied to the subjects it was attached to, one batch at a time:
+ * a single change, or every change of a committed (outermost) transaction in order.
+ * Rolled back mutations and invalidations of @Computed getters are never recorded.
+ * */
+interface MutationRecorder {
+  record(changes: ObservedChange[]): void;
+}
+const MUTATION_RECORDERS = new WeakMap<object, Set<MutationRecorder>>();
+
+function attachRecorder(subject: Observable, recorder: MutationRecorder) {
+  if (!MUTATION_RECORDERS.has(subject))
+    MUTATION_RECORDERS.set(subject, new Set());
+  MUTATION_RECORDERS.get(subject)!.add(recorder);
+}
+
+function detachRecorder(subject: Observable, recorder: MutationRecorder) {
+  MUTATION_RECORDERS.get(subject)?.delete(recorder);
+}
+
+function recordMutations(changes: ObservedChange[]) {
+  const batches = new Map<MutationRecorder, ObservedChange[]>();
+  for (const change of changes) {
+    if (change.computed) continue;
+    for (const recorder of MUTATION_RECORDERS.get(change.subject) ?? []) {
+      if (!batches.has(recorder)) batches.set(recorder, []);
+      batches.get(recorder)!.push(change);
+    }
+  }
+  batches.forEach((batch, recorder) => recorder.record(batch));
+}
+
+/**
+ * Collects the mutations made inside "withTransaction".
+ * Notifications are deferred until commit and kept once per observation, merging the
+ * first old value with the latest new value; the old values are kept to roll back on throw.
+ * Observable collections are rolled back through their "contents" key path as well.
+ * */
+class Transaction {
+  parent: Maybe<Transaction>;
+  rollingBack = false;
+  writes: ObservedChange[] = [];
+  notifications = new Map<
+    Observation,
+    { registrar: ObservationRegistrar; change: ObservedChange }
+  >();
+
+  constructor(parent: Maybe<Transaction>) {
+    this.parent = parent;
+    // a setter that writes back an old value opens a transaction of its own
+    this.rollingBack = parent?.rollingBack ?? false;
+  }
+
+  record(registrar: ObservationRegistrar, change: ObservedChange) {
+    if (this.rollingBack) return;
+    if (!change.computed) this.writes.push(change);
+    for (const observationId of registrar.lookups[change.keyPath] ?? []) {
+      const observation = registrar.observations[observationId];
+      if (observation) this.notify(registrar, observation, change);
+    }
+  }
+
+  notify(
+    registrar: ObservationRegistrar,
+    observation: Observation,
+    change: ObservedChange
+  ) {
+    const pending = this.notifications.get(observation);
+    if (!pending) {
+      this.notifications.set(observation, { registrar, change: { ...change } });
+    } else if (
+      pending.change.subject === change.subject &&
+      pending.change.keyPath === change.keyPath
+    ) {
+      pending.change.newValue = change.newValue;
+      // indices of successive mutations do not compose, so a merged change carries none
+      pending.change.collectionChange = undefined;
+    }
+  }
+
+  /**
+   * Hands everything over to the enclosing transaction, or delivers the notifications.
+   * In a transaction both "willChange" and "didChange" run at commit, after the mutations.
+   * */
+  commit() {
+    if (this.parent) {
+      this.parent.writes.push(...this.writes);
+      for (const [observation, { registrar, change }] of this.notifications) {
+        this.parent.notify(registrar, observation, change);
+      }
+      return;
+    }
+    recordMutations(this.writes);
+    for (const [observation, { registrar, change }] of this.notifications) {
+      if (!registrar.observations[observation.id]) continue;
+      observation.handlers.willChange?.(change);
+      observation.handlers.didChange?.(change);
+      registrar.cancel(observation.id);
+    }
+  }
+
+  /**
+   * Writes the old values back, newest first, without recording or notifying anything.
+   * */
+  rollback() {
+    this.rollingBack = true;
+    for (const { subject, keyPath, oldValue } of this.writes.reverse()) {
+      subject[keyPath] = oldValue;
+    }
+  }
+}
+
+/**
+ * Applies the mutations of "body" immediately but defers their notifications until "body"
+ * returns, so that each observation fires at most once however many properties change.
+ * If "body" throws, every mutation it made is rolled back and no notification is sent.
+ * Transactions nest: an inner transaction commits into the outer one.
+ * */
+function withTransaction<T>(body: () => T): T {
+  const transaction = new Transaction(GLOBAL_TRANSACTION);
+  GLOBAL_TRANSACTION = transaction;
+  let result: T;
+  try {
+    result = body();
+  } catch (e) {
+    transaction.rollback();
+    throw e;
+  } finally {
+    GLOBAL_TRANSACTION = transaction.parent;
+  }
+  transaction.commit();
+  return result;
+}
+
+/**
+ * Runs "read" without recording any access into the current tracking scope.
+ * */
+function untracked<T>(read: () => T): T {
+  if (!ASYNC_ACCESS_LIST) return withAccessList(null, read);
+  return ASYNC_ACCESS_LIST.exit(() => withAccessList(null, read));
+}
+
+/**
+ * A synchronous scope takes precedence, since it can only have been entered after
+ * (and will be exited before) the asynchronous scope the current code runs in.
+ * */
+function currentAccessList(): Maybe<AccessList> {
+  return GLOBAL_ACCESS_LIST ?? ASYNC_ACCESS_LIST?.getStore();
+}
+
+/**
+ * Loads AsyncLocalStorage on the first asynchronous tracking scope, so that the module
+ * loads and type-checks without Node; elsewhere the returned promise rejects.
+ * */
+async function loadAsyncAccessList(): Promise<AsyncScopeStorage<AccessList>> {
+  // a specifier that is not a literal keeps the type-checker from resolving the Node module
+  const specifier = "node:async_hooks";
+  const { AsyncLocalStorage } = await import(specifier);
+  return (ASYNC_ACCESS_LIST ??= new AsyncLocalStorage());
+}
+
+/**
+ * Runs "apply" with "accessList" as the synchronous tracking scope and restores
+ * the enclosing scope afterwards, even when "apply" throws.
+ * */
+function withAccessList<T>(accessList: Maybe<AccessList>, apply: () => T): T {
+  const enclosing = GLOBAL_ACCESS_LIST;
+  GLOBAL_ACCESS_LIST = accessList;
+  try {
+    return apply();
+  } finally {
+    GLOBAL_ACCESS_LIST = enclosing;
+  }
+}
+
+function isObservable(value: unknown): value is Observable {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "_$observationRegistrar" in value
+  );
+}
+
+/**
+ * Returns the registrar of an object created from an @Observable class.
+ * The decorator cannot change the declared type of the class, hence the cast.
+ * */
+function registrarOf<TSubject extends Observable>(
+  subject: TSubject
+): ObservationRegistrar<TSubject> {
+  return (subject as any)._$observationRegistrar;
+}
+
+/**
+ * "willSet" (the default, as in Swift) calls "onChange" before the mutation is applied,
+ * so the subject still holds the old value; "didSet" calls it once the new value is in place.
+ * */
+type ObservationDelivery = "willSet" | "didSet";
+type ObservationTrackingOptions = {
+  delivery?: ObservationDelivery;
+  /** Cancels the observation when aborted, before "onChange" had a chance to run. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Tracks the properties "apply" reads and calls "onChange" once one of them changes.
+ * Scopes nest: a nested scope registers its own observation, and its accesses are also
+ * added to the enclosing scope, whose value depends on them as well (as in Swift).
+ * If "apply" throws, nothing is registered and the enclosing scope is still restored.
+ * */
+function withObservationTracking<T>(
+  apply: () => T,
+  onChange: ObservationHandler,
+  options: ObservationTrackingOptions = {}
+): T {
+  const accessList = new AccessList();
+  const enclosing = currentAccessList();
+  const result = withAccessList(accessList, apply);
+  enclosing?.merge(accessList);
+  if (!options.signal?.aborted) {
+    accessList.registerOnChange(
+      onChange,
+      options.delivery ?? "willSet",
+      options.signal
+    );
   }
+  return result;
 }
 
-function withObservationTracking<T>(apply: () => T, onChange: () => void): T {
-  GLOBAL_ACCESS_LIST = new AccessList();
-  const result = apply();
-  GLOBAL_ACCESS_LIST?.registerOnChange(onChange);
+/**
+ * The asynchronous counterpart of "withObservationTracking", for an "apply" that awaits.
+ * The scope is carried across "await" with Node's AsyncLocalStorage (see "loadAsyncAccessList"),
+ * so properties read after an "await" are tracked too, while reads made meanwhile by unrelated
+ * code are not.
+ * The observation is registered once the returned promise settles successfully.
+ * */
+async function withObservationTrackingAsync<T>(
+  apply: () => Promise<T>,
+  onChange: ObservationHandler,
+  options: ObservationTrackingOptions = {}
+): Promise<T> {
+  const accessList = new AccessList();
+  const enclosing = currentAccessList();
+  const storage = ASYNC_ACCESS_LIST ?? (await loadAsyncAccessList());
+  const result = await storage.run(accessList, () =>
+    withAccessList(null, apply)
+  );
+  enclosing?.merge(accessList);
+  if (!options.signal?.aborted) {
+    accessList.registerOnChange(
+      onChange,
+      options.delivery ?? "willSet",
+      options.signal
+    );
+  }
   return result;
 }
 
+/**
+ * Streams the successive values of "expr", starting with its current value.
+ * Every change re-runs "expr" under a fresh "withObservationTracking", so dependencies are
+ * re-tracked each time. Changes made in the same tick are coalesced into one new value, and
+ * a consumer that falls behind only receives the latest one. Leaving the "for await" loop
+ * cancels the pending observation.
+ * */
+function observations<T>(expr: () => T): AsyncIterable<T> {
+  return new AsyncStream<T>((producer) => {
+    const controller = new AbortController();
+    let scheduled = false;
+    const track = () => {
+      scheduled = false;
+      if (controller.signal.aborted) return;
+      try {
+        const value = withObservationTracking(expr, onChange, {
+          delivery: "didSet",
+          signal: controller.signal,
+        });
+        producer.yield(value);
+      } catch (e) {
+        controller.abort(e);
+        producer.fail(e);
+      }
+    };
+    const onChange = () => {
+      if (scheduled) return;
+      scheduled = true;
+      queueMicrotask(track);
+    };
+    producer.onTermination = () => controller.abort();
+    track();
+  }, BufferingPolicy.bufferingNewest(1));
+}
+
+/**
+ * Thrown to the code assigning a property of an @Observable class when a validator rejects
+ * the new value, or when the mutation throws by itself (the original error is kept in `cause`).
+ * A rejected value is caught before anyone is notified, and the property keeps its old value.
+ * So does a custom setter that throws: the assignment of an accessor runs in a transaction,
+ * which rolls back the fields the setter assigned and drops their notifications.
+ * */
+class MutationError extends Error {
+  override name = "MutationError";
+
+  constructor(
+    public readonly keyPath: string,
+    public readonly value: unknown,
+    reason: string,
+    options?: ErrorOptions
+  ) {
+    super(`Cannot set "${keyPath}" to ${String(value)}: ${reason}.`, options);
+  }
+}
+
+/**
+ * Thrown when assigning a property that an @Observable instance did not have once its
+ * constructor ran, which nobody could observe. It extends TypeError, which is what the engine
+ * throws for non-extensible objects in strict mode; this one names the property and is thrown
+ * in sloppy mode as well, where the assignment would otherwise be silently dropped.
+ * */
+class UnobservedPropertyError extends TypeError {
+  override name = "UnobservedPropertyError";
+
+  constructor(className: string, public readonly property: PropertyKey) {
+    super(
+      `Cannot add property "${String(property)}" to ${className}: ` +
+        "only properties that exist once the constructor has run are observed."
+    );
+  }
+}
+
+type Validator = { isValid: (value: any) => boolean; message: string };
+const VALIDATORS = new WeakMap<object, Map<string, Validator[]>>();
+
+/**
+ * Declares a validator for a field (or accessor) of an @Observable class, e.g.
+ * "@Validate((value: number) => value >= 0)". Every assignment, as well as the value the
+ * constructor leaves behind, must pass all validators of the property.
+ * */
+function Validate<T>(
+  isValid: (value: T) => boolean,
+  message: string = "rejected by a validator"
+) {
+  return function (
+    target: object,
+    propertyKey: string,
+    _descriptor?: PropertyDescriptor
+  ) {
+    if (!VALIDATORS.has(target)) VALIDATORS.set(target, new Map());
+    const validators = VALIDATORS.get(target)!;
+    validators.set(propertyKey, [
+      ...(validators.get(propertyKey) ?? []),
+      { isValid, message },
+    ]);
+  };
+}
+
+function validate(subject: unknown, keyPath: string, value: unknown) {
+  for (
+    let proto = Object(subject);
+    proto;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    const validators = VALIDATORS.get(proto)?.get(keyPath) ?? [];
+    for (const { isValid, message } of validators) {
+      let valid: boolean;
+      try {
+        valid = isValid(value);
+      } catch (e) {
+        throw new MutationError(keyPath, value, "the validator threw", {
+          cause: e,
+        });
+      }
+      if (!valid) throw new MutationError(keyPath, value, message);
+    }
+  }
+}
+
+function attemptMutation<T>(
+  keyPath: string,
+  value: unknown,
+  mutate: () => T
+): T {
+  try {
+    return mutate();
+  } catch (e) {
+    if (e instanceof MutationError) throw e;
+    throw new MutationError(keyPath, value, "the mutation threw", { cause: e });
+  }
+}
+
+const IGNORED_KEYS = new WeakMap<object, Set<string>>();
+const OBSERVED_ACCESSORS = new WeakSet<Function>();
+
+/**
+ * Opts a field (or accessor) of an @Observable class out of observation, similar to Swift's
+ * @ObservationIgnored macro. Reading it is not tracked and assigning it notifies nobody,
+ * which suits caches, loggers and the like.
+ * */
+function ObservationIgnored(
+  target: object,
+  propertyKey: string,
+  _descriptor?: PropertyDescriptor
+) {
+  if (!IGNORED_KEYS.has(target)) IGNORED_KEYS.set(target, new Set());
+  IGNORED_KEYS.get(target)!.add(propertyKey);
+}
+
+function isObservationIgnored(object: object, key: string): boolean {
+  for (let proto = object; proto; proto = Object.getPrototypeOf(proto)) {
+    if (IGNORED_KEYS.get(proto)?.has(key)) return true;
+  }
+  return false;
+}
+
+/**
+ * Redefines the accessors found along the prototype chain on "prototype", so that reading them
+ * is tracked and assigning them notifies like for fields. Getter-only accessors (and @Computed ones)
+ * are left alone: they derive their value from properties which are tracked by themselves.
+ * */
+function observeAccessors(prototype: object) {
+  const seen = new Set<string>();
+  for (
+    let proto = Object.getPrototypeOf(prototype);
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (const key of Object.getOwnPropertyNames(proto)) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const { get, set, enumerable } = Object.getOwnPropertyDescriptor(
+        proto,
+        key
+      )!;
+      if (!set || OBSERVED_ACCESSORS.has(set)) continue;
+      if (isObservationIgnored(proto, key)) continue;
+
+      const observedSet = function (this: any, value: unknown) {
+        /**
+         * A transaction makes the assignment a single change together with the fields the
+         * setter assigns: recorded as one undo step, and rolled back as a whole if the setter throws.
+         * */
+        withTransaction(() =>
+          this.withMutation(key, () => set.call(this, value), {
+            oldValue: untracked(() => get?.call(this)),
+            newValue: value,
+            accessor: true,
+          })
+        );
+      };
+      OBSERVED_ACCESSORS.add(observedSet);
+      Object.defineProperty(prototype, key, {
+        get(this: any) {
+          this.access(key);
+          return get?.call(this);
+        },
+        set: observedSet,
+        configurable: true,
+        enumerable,
+      });
+    }
+  }
+}
+
 /**
  * A decorator function that simulates SwiftUI's @Observable macro in TypeScript.
  * It wraps a class to automatically observe property changes and notify
@@ -143,17 +790,23 @@ function Observable<T extends { new (...args: any[]): object }>(
    * However it does provide a semantic meaning that the class is Observable and
    * its implementation is derived from that of SwiftUI's Observable.
    * */
-  return class extends constructor implements Observable {
-    _$observationRegistrar = new ObservationRegistrar();
+  const Observed = class extends constructor implements Observable {
+    declare _$observationRegistrar: ObservationRegistrar<this>;
     access(keyPath: KeyPath<typeof this>) {
       this._$observationRegistrar.access(this, keyPath);
     }
-    withMutation(keyPath: KeyPath<typeof this>, mutate: () => unknown) {
-      this._$observationRegistrar.withMutation(this, keyPath, mutate);
+    withMutation(
+      keyPath: KeyPath<typeof this>,
+      mutate: () => unknown,
+      values?: ObservedValues
+    ) {
+      this._$observationRegistrar.withMutation(this, keyPath, mutate, values);
     }
 
     constructor(...args: any[]) {
       super(...args);
+      // a base class decorated with @Observable has already created the registrar
+      this._$observationRegistrar ??= new ObservationRegistrar(this);
 
       Object.keys(this).forEach((key) => {
         if (
@@ -162,56 +815,1641 @@ function Observable<T extends { new (...args: any[]): object }>(
           key === "withMutation"
         )
           return;
+        if (isObservationIgnored(this, key)) return;
+        // already observed by a base class decorated with @Observable
+        if (Object.getOwnPropertyDescriptor(this, key)?.get) return;
 
+        validate(this, key, (this as any)[key]);
         const privateKey = `__$${key}`;
-        (this as any)[privateKey] = (this as any)[key];
+        Object.defineProperty(this, privateKey, {
+          value: observableCollection((this as any)[key]),
+          writable: true,
+          configurable: true,
+        });
         Object.defineProperty(this, key, {
           get() {
             this.access(key);
             return (this as any)[privateKey];
           },
           set(value: any) {
-            this.withMutation(key, () => {
-              (this as any)[privateKey] = value;
-            });
+            const newValue = observableCollection(value);
+            this.withMutation(
+              key,
+              () => {
+                (this as any)[privateKey] = newValue;
+              },
+              { oldValue: (this as any)[privateKey], newValue }
+            );
           },
           configurable: true,
           enumerable: true,
         });
       });
+
+      /**
+       * A property can only be observed if it exists once the constructor has run,
+       * so assigning a new one later throws an UnobservedPropertyError instead of going unnoticed.
+       * Subclasses that declare fields of their own must be decorated with @Observable as well.
+       * */
+      if (new.target === Observed) Object.preventExtensions(this);
     }
   };
+  observeAccessors(Observed.prototype);
+  // the decorated class goes by its own name, e.g. in "UnobservedPropertyError"
+  Object.defineProperty(Observed, "name", { value: constructor.name });
+  /**
+   * Assigning a property that neither the instance nor Observed.prototype has continues up the
+   * prototype chain, into this Proxy; the assignment fails only once the instance is not extensible.
+   * */
+  Object.setPrototypeOf(
+    Observed.prototype,
+    new Proxy(Object.create(constructor.prototype), {
+      set(target, property, value, receiver) {
+        if (Reflect.set(target, property, value, receiver)) return true;
+        if (Object.isExtensible(receiver) || Object.hasOwn(receiver, property))
+          return false;
+        // a getter without a setter, rather than a missing property
+        for (let proto = target; proto; proto = Object.getPrototypeOf(proto)) {
+          if (Object.getOwnPropertyDescriptor(proto, property)?.get)
+            return false;
+        }
+        // the Proxy of a base class sees the assignments to subclass instances as well
+        throw new UnobservedPropertyError(receiver.constructor.name, property);
+      },
+    })
+  );
+  return Observed;
 }
 
-@Observable
-class Suspect {
-  name: string = "";
-  suspciousness: number = 0;
-  constructor(name: string, suspiciousness: number) {
-    this.name = name;
-    this.suspciousness = suspiciousness;
+function range(start: number, end: number): number[] {
+  return Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i);
+}
+
+function isEmptyChange({ inserted, removed, updated }: CollectionChange) {
+  return !inserted.length && !removed.length && !updated.length;
+}
+
+/**
+ * Describes the difference between two arrays as replaced elements when the length is kept,
+ * and otherwise as the single splice that turns "before" into "after".
+ * */
+function diffArrays(
+  before: readonly unknown[],
+  after: readonly unknown[]
+): CollectionChange {
+  if (before.length === after.length) {
+    const updated = range(0, after.length).filter(
+      (i) => !Object.is(before[i], after[i])
+    );
+    return { inserted: [], removed: [], updated };
+  }
+  let start = 0;
+  while (
+    start < Math.min(before.length, after.length) &&
+    Object.is(before[start], after[start])
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < Math.min(before.length, after.length) - start &&
+    Object.is(before[before.length - 1 - end], after[after.length - 1 - end])
+  ) {
+    end++;
   }
+  return {
+    inserted: range(start, after.length - end),
+    removed: range(start, before.length - end),
+    updated: [],
+  };
 }
 
-const suspect = new Suspect("Glib Butler", 33);
-const suspect2 = new Suspect("Jimmy the Shrimp", 10);
-withObservationTracking(
-  () => {
-    console.log(`Observing property of ${suspect.suspciousness}`); // <-- Only observing property of suspect.suspciousness
-  },
-  () => {
-    console.log("A property has changed");
+function diffMaps(
+  before: ReadonlyMap<unknown, unknown>,
+  after: ReadonlyMap<unknown, unknown>
+): CollectionChange {
+  const keys = [...new Set([...before.keys(), ...after.keys()])];
+  return {
+    inserted: keys.filter((key) => !before.has(key)),
+    removed: keys.filter((key) => !after.has(key)),
+    updated: keys.filter(
+      (key) =>
+        before.has(key) &&
+        after.has(key) &&
+        !Object.is(before.get(key), after.get(key))
+    ),
+  };
+}
+
+function diffSets(
+  before: ReadonlySet<unknown>,
+  after: ReadonlySet<unknown>
+): CollectionChange {
+  return {
+    inserted: [...after].filter((value) => !before.has(value)),
+    removed: [...before].filter((value) => !after.has(value)),
+    updated: [],
+  };
+}
+
+/**
+ * Whether anybody gets to see the old and new contents of a collection mutation: its observers,
+ * a transaction (which restores "oldValue" on rollback) or a mutation recorder.
+ * Without them the mutation is applied in place, without copying the collection.
+ * */
+function needsContents(registrar: ObservationRegistrar, subject: object) {
+  return Boolean(
+    GLOBAL_TRANSACTION ||
+      registrar.lookups[COLLECTION_KEY_PATH]?.size ||
+      MUTATION_RECORDERS.get(subject)?.size
+  );
+}
+
+function toInteger(value: unknown): number {
+  return Math.trunc(Number(value)) || 0;
+}
+
+// the index a relative "start" or "end" argument of Array.prototype methods refers to
+function toIndex(value: unknown, length: number): number {
+  const index = toInteger(value);
+  return index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+}
+
+/**
+ * Tells which indices the given array mutator will touch, from its arguments alone.
+ * Returns nothing for "sort", "reverse" and "copyWithin", whose effect is only known
+ * once they ran and which are diffed instead.
+ * */
+function arrayChange(
+  items: readonly unknown[],
+  method: string,
+  args: unknown[]
+): CollectionChange | undefined {
+  const length = items.length;
+  const replaced = (start: number, values: readonly unknown[]) =>
+    range(start, start + values.length).filter(
+      (i) => !Object.is(items[i], values[i - start])
+    );
+  switch (method) {
+    case "push":
+      return {
+        inserted: range(length, length + args.length),
+        removed: [],
+        updated: [],
+      };
+    case "unshift":
+      return { inserted: range(0, args.length), removed: [], updated: [] };
+    case "pop":
+      return { inserted: [], removed: range(length - 1, length), updated: [] };
+    case "shift":
+      return {
+        inserted: [],
+        removed: range(0, Math.min(length, 1)),
+        updated: [],
+      };
+    case "fill": {
+      const start = toIndex(args[1], length);
+      const end = args[2] === undefined ? length : toIndex(args[2], length);
+      const values = range(start, end).map(() => args[0]);
+      return { inserted: [], removed: [], updated: replaced(start, values) };
+    }
+    case "splice": {
+      const start = toIndex(args[0], length);
+      const deleteCount =
+        args.length === 0
+          ? 0
+          : args.length === 1
+          ? length - start
+          : Math.min(Math.max(toInteger(args[1]), 0), length - start);
+      const values = args.slice(2);
+      // like "diffArrays", a splice that keeps the length replaces elements
+      if (deleteCount === values.length) {
+        return { inserted: [], removed: [], updated: replaced(start, values) };
+      }
+      return {
+        inserted: range(start, start + values.length),
+        removed: range(start, start + deleteCount),
+        updated: [],
+      };
+    }
+    default:
+      return undefined;
   }
-);
+}
+
+const ARRAY_MUTATORS = new Set([
+  "copyWithin",
+  "fill",
+  "pop",
+  "push",
+  "reverse",
+  "shift",
+  "sort",
+  "splice",
+  "unshift",
+]);
 
 /**
- * "suspect.name = "Glib Garlic";" does not trigger onChange callback of withObservationTracking
- * because "apply" block does NOT contain "suspect.name"
+ * An array returned by "observableArray", whose Proxy adds the "contents" key path.
  * */
-suspect.name = "Glib Garlic";
-console.log(suspect2.name);
+type ObservableArray<T> = T[] & Record<typeof COLLECTION_KEY_PATH, T[]>;
+
 /**
- * "suspect.suspciousness = 30;" triggers onChange callback of withObservationTracking
- * because "apply" block contains "suspect.suspciousness"
+ * Returns an observable copy of "items". An array cannot intercept "items[i] = x" by itself,
+ * hence the Proxy: reads (indices, length, iteration, ...) are tracked, while mutator methods
+ * and assignments to indices or "length" notify with the affected indices.
+ * The affected indices follow from the arguments, except for "sort", "reverse" and "copyWithin",
+ * which are applied to a draft and diffed. The array is only copied when somebody needs its
+ * old and new contents (see "needsContents").
  * */
-suspect.suspciousness = 30;
+function observableArray<T>(items: Iterable<T> = []): T[] {
+  const target = [...items];
+  const mutate = <R>(edit: (items: T[]) => R, change?: CollectionChange): R => {
+    if (change && isEmptyChange(change)) return edit(target);
+    if (change && !needsContents(registrar, proxy)) {
+      return registrar.withMutation(
+        proxy,
+        COLLECTION_KEY_PATH,
+        () => edit(target),
+        { oldValue: undefined, newValue: undefined, collectionChange: change }
+      );
+    }
+    const before = [...target];
+    const draft = [...target];
+    const result = edit(draft);
+    const collectionChange = change ?? diffArrays(before, draft);
+    if (isEmptyChange(collectionChange)) return result;
+    registrar.withMutation(
+      proxy,
+      COLLECTION_KEY_PATH,
+      () => target.splice(0, target.length, ...draft),
+      { oldValue: before, newValue: [...draft], collectionChange }
+    );
+    return result;
+  };
+
+  const proxy = new Proxy(target, {
+    get(target, property, receiver) {
+      if (property === "_$observationRegistrar") return registrar;
+      if (typeof property === "string" && ARRAY_MUTATORS.has(property)) {
+        return (...args: unknown[]) =>
+          mutate((items) => {
+            const result = Reflect.apply(
+              Reflect.get(items, property),
+              items,
+              args
+            );
+            // "sort", "reverse", ... return the array itself
+            return result === items ? proxy : result;
+          }, arrayChange(target, property, args));
+      }
+      registrar.access(proxy, COLLECTION_KEY_PATH);
+      if (property === COLLECTION_KEY_PATH) return [...target];
+      return Reflect.get(target, property, receiver);
+    },
+    set(target, property, value, receiver) {
+      if (property === COLLECTION_KEY_PATH) {
+        mutate((items) => items.splice(0, items.length, ...value));
+        return true;
+      }
+      if (property === "length") {
+        const length = Number(value);
+        // let the array throw its RangeError for invalid lengths
+        if (length >>> 0 !== length)
+          return Reflect.set(target, property, value);
+        mutate((items) => Reflect.set(items, property, value), {
+          inserted: range(target.length, length),
+          removed: range(length, target.length),
+          updated: [],
+        });
+        return true;
+      }
+      if (/^(0|[1-9]\d*)$/.test(String(property))) {
+        const index = Number(property);
+        const change: CollectionChange =
+          index >= target.length
+            ? {
+                inserted: range(target.length, index + 1),
+                removed: [],
+                updated: [],
+              }
+            : {
+                inserted: [],
+                removed: [],
+                updated: Object.is(target[index], value) ? [] : [index],
+              };
+        mutate((items) => Reflect.set(items, property, value), change);
+        return true;
+      }
+      return Reflect.set(target, property, value, receiver);
+    },
+  }) as ObservableArray<T>;
+  const registrar = new ObservationRegistrar<ObservableArray<T>>(proxy);
+  Object.defineProperty(target, "_$observationRegistrar", { value: registrar });
+  return proxy;
+}
+
+/**
+ * A Map whose reads ("get", "has", "size", iteration) are tracked and whose mutations notify
+ * with the inserted, removed and updated keys.
+ * */
+class ObservableMap<K, V> extends Map<K, V> implements Observable {
+  _$observationRegistrar = new ObservationRegistrar(this);
+
+  constructor(entries?: Iterable<readonly [K, V]> | null) {
+    super();
+    for (const [key, value] of entries ?? []) super.set(key, value);
+  }
+
+  private snapshot(): Map<K, V> {
+    return new Map(Map.prototype.entries.call(this));
+  }
+
+  private track() {
+    this._$observationRegistrar.access<ObservableMap<K, V>>(
+      this,
+      COLLECTION_KEY_PATH
+    );
+  }
+
+  /**
+   * Applies "edit" in place when "change" is given and nobody needs the old and new contents,
+   * and otherwise to a draft, diffed when "change" is missing. "edit" must use
+   * Map.prototype methods, since it also runs on this instance.
+   * */
+  private mutate<R>(edit: (map: Map<K, V>) => R, change?: CollectionChange): R {
+    const registrar = this._$observationRegistrar;
+    if (change && isEmptyChange(change)) return edit(this);
+    if (change && !needsContents(registrar, this)) {
+      return registrar.withMutation<ObservableMap<K, V>, R>(
+        this,
+        COLLECTION_KEY_PATH,
+        () => edit(this),
+        { oldValue: undefined, newValue: undefined, collectionChange: change }
+      );
+    }
+    const before = this.snapshot();
+    const draft = this.snapshot();
+    const result = edit(draft);
+    const collectionChange = change ?? diffMaps(before, draft);
+    if (isEmptyChange(collectionChange)) return result;
+    registrar.withMutation<ObservableMap<K, V>, void>(
+      this,
+      COLLECTION_KEY_PATH,
+      () => {
+        Map.prototype.clear.call(this);
+        draft.forEach((value, key) => Map.prototype.set.call(this, key, value));
+      },
+      { oldValue: before, newValue: new Map(draft), collectionChange }
+    );
+    return result;
+  }
+
+  get contents(): Map<K, V> {
+    this.track();
+    return this.snapshot();
+  }
+
+  set contents(entries: Map<K, V>) {
+    this.mutate((draft) => {
+      draft.clear();
+      entries.forEach((value, key) => draft.set(key, value));
+    });
+  }
+
+  override get size(): number {
+    this.track();
+    return super.size;
+  }
+
+  override get(key: K): V | undefined {
+    this.track();
+    return super.get(key);
+  }
+
+  override has(key: K): boolean {
+    this.track();
+    return super.has(key);
+  }
+
+  override forEach(
+    callback: (value: V, key: K, map: Map<K, V>) => void,
+    thisArg?: unknown
+  ) {
+    this.track();
+    super.forEach(callback, thisArg);
+  }
+
+  override keys() {
+    this.track();
+    return super.keys();
+  }
+
+  override values() {
+    this.track();
+    return super.values();
+  }
+
+  override entries() {
+    this.track();
+    return super.entries();
+  }
+
+  override [Symbol.iterator]() {
+    this.track();
+    return super[Symbol.iterator]();
+  }
+
+  override set(key: K, value: V): this {
+    const has = Map.prototype.has.call(this, key);
+    const unchanged =
+      has && Object.is(Map.prototype.get.call(this, key), value);
+    this.mutate((map) => Map.prototype.set.call(map, key, value), {
+      inserted: has ? [] : [key],
+      removed: [],
+      updated: has && !unchanged ? [key] : [],
+    });
+    return this;
+  }
+
+  override delete(key: K): boolean {
+    const has = Map.prototype.has.call(this, key);
+    return this.mutate((map) => Map.prototype.delete.call(map, key), {
+      inserted: [],
+      removed: has ? [key] : [],
+      updated: [],
+    });
+  }
+
+  override clear() {
+    this.mutate((map) => Map.prototype.clear.call(map), {
+      inserted: [],
+      removed: [...Map.prototype.keys.call(this)],
+      updated: [],
+    });
+  }
+}
+
+/**
+ * A Set whose reads ("has", "size", iteration) are tracked and whose mutations notify
+ * with the inserted and removed values.
+ * */
+class ObservableSet<T> extends Set<T> implements Observable {
+  _$observationRegistrar = new ObservationRegistrar(this);
+
+  constructor(values?: Iterable<T> | null) {
+    super();
+    for (const value of values ?? []) super.add(value);
+  }
+
+  private snapshot(): Set<T> {
+    return new Set(Set.prototype.values.call(this));
+  }
+
+  private track() {
+    this._$observationRegistrar.access<ObservableSet<T>>(
+      this,
+      COLLECTION_KEY_PATH
+    );
+  }
+
+  // see ObservableMap#mutate
+  private mutate<R>(edit: (set: Set<T>) => R, change?: CollectionChange): R {
+    const registrar = this._$observationRegistrar;
+    if (change && isEmptyChange(change)) return edit(this);
+    if (change && !needsContents(registrar, this)) {
+      return registrar.withMutation<ObservableSet<T>, R>(
+        this,
+        COLLECTION_KEY_PATH,
+        () => edit(this),
+        { oldValue: undefined, newValue: undefined, collectionChange: change }
+      );
+    }
+    const before = this.snapshot();
+    const draft = this.snapshot();
+    const result = edit(draft);
+    const collectionChange = change ?? diffSets(before, draft);
+    if (isEmptyChange(collectionChange)) return result;
+    registrar.withMutation<ObservableSet<T>, void>(
+      this,
+      COLLECTION_KEY_PATH,
+      () => {
+        Set.prototype.clear.call(this);
+        draft.forEach((value) => Set.prototype.add.call(this, value));
+      },
+      { oldValue: before, newValue: new Set(draft), collectionChange }
+    );
+    return result;
+  }
+
+  get contents(): Set<T> {
+    this.track();
+    return this.snapshot();
+  }
+
+  set contents(values: Set<T>) {
+    this.mutate((draft) => {
+      draft.clear();
+      values.forEach((value) => draft.add(value));
+    });
+  }
+
+  override get size(): number {
+    this.track();
+    return super.size;
+  }
+
+  override has(value: T): boolean {
+    this.track();
+    return super.has(value);
+  }
+
+  override forEach(
+    callback: (value: T, value2: T, set: Set<T>) => void,
+    thisArg?: unknown
+  ) {
+    this.track();
+    super.forEach(callback, thisArg);
+  }
+
+  override keys() {
+    this.track();
+    return super.keys();
+  }
+
+  override values() {
+    this.track();
+    return super.values();
+  }
+
+  override entries() {
+    this.track();
+    return super.entries();
+  }
+
+  override [Symbol.iterator]() {
+    this.track();
+    return super[Symbol.iterator]();
+  }
+
+  override add(value: T): this {
+    const has = Set.prototype.has.call(this, value);
+    this.mutate((set) => Set.prototype.add.call(set, value), {
+      inserted: has ? [] : [value],
+      removed: [],
+      updated: [],
+    });
+    return this;
+  }
+
+  override delete(value: T): boolean {
+    const has = Set.prototype.has.call(this, value);
+    return this.mutate((set) => Set.prototype.delete.call(set, value), {
+      inserted: [],
+      removed: has ? [value] : [],
+      updated: [],
+    });
+  }
+
+  override clear() {
+    this.mutate((set) => Set.prototype.clear.call(set), {
+      inserted: [],
+      removed: [...Set.prototype.values.call(this)],
+      updated: [],
+    });
+  }
+}
+
+/**
+ * Arrays, Maps and Sets assigned to fields of an @Observable class are replaced by
+ * observable copies, so that "this.items.push(x)" notifies like "this.items = [...]" does.
+ * */
+function observableCollection<T>(value: T): T {
+  if (isObservable(value)) return value;
+  if (Array.isArray(value)) return observableArray(value) as T;
+  if (value instanceof Map) return new ObservableMap(value) as T;
+  if (value instanceof Set) return new ObservableSet(value) as T;
+  return value;
+}
+
+/**
+ * A getter decorator for @Observable classes that memoizes the getter per instance.
+ * The getter runs inside "withObservationTracking", so the cache is dropped only when a property
+ * it actually read mutates. The computed property is observable itself: its observers are notified
+ * with the old and the recomputed value, so trackers that read it re-run like for a stored property,
+ * unless the recomputed value is the same.
+ * Inside a transaction the cache is bypassed, since invalidations are deferred until commit.
+ * */
+function Computed(
+  _target: object,
+  propertyKey: string,
+  descriptor: PropertyDescriptor
+) {
+  const compute: () => unknown = descriptor.get!;
+  const caches = new WeakMap<object, { value: unknown }>();
+
+  descriptor.get = function (this: any) {
+    const registrar: ObservationRegistrar = registrarOf(this);
+    registrar.access(this, propertyKey);
+    if (GLOBAL_TRANSACTION) return compute.call(this);
+
+    const cached = caches.get(this);
+    if (cached) return cached.value;
+
+    const invalidate = () => {
+      const oldValue = caches.get(this)?.value;
+      caches.delete(this);
+      // without observers the value is recomputed lazily, on the next read
+      if (!registrar.lookups[propertyKey]) return;
+      const newValue = untracked(() => this[propertyKey]);
+      // an unchanged result must not re-run the trackers that read it
+      if (Object.is(oldValue, newValue)) return;
+      registrar.withMutation(this, propertyKey, () => newValue, {
+        oldValue,
+        newValue,
+        computed: true,
+      });
+    };
+    // the dependencies of the getter must not leak into an enclosing tracking scope
+    const value = untracked(() =>
+      withObservationTracking(() => compute.call(this), invalidate, {
+        delivery: "didSet",
+      })
+    );
+    caches.set(this, { value });
+    return value;
+  };
+}
+
+@Observable
+class Suspect {
+  name: string = "";
+  @Validate(
+    (value: number) => value >= 0,
+    "suspiciousness must not be negative"
+  )
+  suspciousness: number = 0;
+  constructor(name: string, suspiciousness: number) {
+    this.name = name;
+    this.suspciousness = suspiciousness;
+  }
+
+  @Computed
+  get riskLabel(): string {
+    console.log(`computing riskLabel of ${this.name}`);
+    return this.suspciousness >= 50 ? "high" : "low";
+  }
+}
+
+const suspect = new Suspect("Glib Butler", 33);
+const suspect2 = new Suspect("Jimmy the Shrimp", 10);
+withObservationTracking(
+  () => {
+    console.log(`Observing property of ${suspect.suspciousness}`); // <-- Only observing property of suspect.suspciousness
+  },
+  () => {
+    console.log("A property has changed");
+  }
+);
+
+/**
+ * "suspect.name = "Glib Garlic";" does not trigger onChange callback of withObservationTracking
+ * because "apply" block does NOT contain "suspect.name"
+ * */
+suspect.name = "Glib Garlic";
+console.log(suspect2.name);
+/**
+ * "suspect.suspciousness = 30;" triggers onChange callback of withObservationTracking
+ * because "apply" block contains "suspect.suspciousness"
+ * */
+suspect.suspciousness = 30;
+
+/**
+ * Accesses to several objects in one "apply" block are grouped per object:
+ * one observation on suspect (name) and one on suspect2 (suspciousness).
+ * Whichever fires first cancels its sibling, so onChange runs only once.
+ * */
+withObservationTracking(
+  () => `${suspect.name} vs ${suspect2.suspciousness}`,
+  () => {
+    console.log("A suspect has changed");
+  }
+);
+suspect2.suspciousness = 99; // <-- "A suspect has changed"
+suspect.name = "Glib Ghost"; // <-- nothing, the observation on suspect was cancelled along with its sibling
+
+/**
+ * Nested @Observable objects are tracked along the whole chain.
+ * "member.account.permission.level" reads "account" of person, "permission" of
+ * the account and "level" of the permission, and each of them is observed.
+ * */
+@Observable
+class Permission {
+  role: string;
+  level: number;
+  constructor(role: string, level: number) {
+    this.role = role;
+    this.level = level;
+  }
+}
+
+@Observable
+class Account {
+  id: string;
+  permission: Permission;
+  constructor(id: string, permission: Permission) {
+    this.id = id;
+    this.permission = permission;
+  }
+}
+
+@Observable
+class Member {
+  name: string;
+  account: Account;
+  constructor(name: string, account: Account) {
+    this.name = name;
+    this.account = account;
+  }
+}
+
+const member = new Member(
+  "Heecheon",
+  new Account("hc", new Permission("normal", 1))
+);
+withObservationTracking(
+  () => member.account.permission.level,
+  () => {
+    console.log("Permission level has changed");
+  }
+);
+member.account.permission.level = 2; // <-- "Permission level has changed"
+
+/**
+ * The same chain expressed as a typed dotted key path.
+ * Replacing any link of the chain ("account" here) invalidates the observation.
+ * */
+registrarOf(member).registerOnChange(
+  new Set(["account.permission.level"] as const),
+  () => {
+    console.log("Permission chain has changed");
+  }
+);
+member.account = new Account("hc2", new Permission("admin", 9)); // <-- "Permission chain has changed"
+member.account.permission.level = 10; // <-- nothing, the observation was invalidated by the previous line
+
+/**
+ * Observers receive the change itself: the subject, the key path and both values.
+ * With "didSet" delivery the subject already holds the new value when "onChange" runs.
+ * */
+withObservationTracking(
+  () => suspect.suspciousness,
+  ({ keyPath, oldValue, newValue }) => {
+    console.log(
+      `${keyPath}: ${oldValue} -> ${newValue} (now ${suspect.suspciousness})`
+    );
+  },
+  { delivery: "didSet" }
+);
+suspect.suspciousness = 50; // <-- "suspciousness: 30 -> 50 (now 50)"
+
+registrarOf(suspect).registerOnChange(new Set(["name"] as const), {
+  willChange: ({ oldValue, newValue }) =>
+    console.log(`willSet name: ${oldValue} -> ${newValue}`),
+  didChange: ({ oldValue, newValue }) =>
+    console.log(`didSet name: ${oldValue} -> ${newValue}`),
+});
+suspect.name = "Glib Gone"; // <-- "willSet name: ..." then "didSet name: ..."
+
+/**
+ * Mutations inside "withTransaction" notify once, at commit,
+ * even though both observed properties change.
+ * */
+withObservationTracking(
+  () => `${suspect.name} (${suspect.suspciousness})`,
+  ({ keyPath }) => {
+    console.log(`Suspect changed in a transaction, first by ${keyPath}`);
+  },
+  { delivery: "didSet" }
+);
+withTransaction(() => {
+  suspect.name = "Glib Ghost";
+  suspect.suspciousness = 70;
+  suspect.suspciousness = 80;
+}); // <-- "Suspect changed in a transaction, first by name", once
+
+/**
+ * A throwing transaction restores the previous values and notifies nobody.
+ * */
+try {
+  withTransaction(() => {
+    suspect.name = "Glib Innocent";
+    suspect.suspciousness = 0;
+    throw new Error("Alibi does not hold");
+  });
+} catch (e) {
+  console.log(
+    `${(e as Error).message}: ${suspect.name} (${suspect.suspciousness})`
+  ); // <-- "Alibi does not hold: Glib Ghost (80)"
+}
+
+/**
+ * "@Computed" getters are cached until one of the properties they read mutates,
+ * and trackers reading them are notified when the computed value is invalidated.
+ * */
+const suspect3 = new Suspect("Mr. Smith", 20);
+console.log(suspect3.riskLabel); // <-- "computing riskLabel of Mr. Smith", "low"
+console.log(suspect3.riskLabel); // <-- "low", from the cache
+withObservationTracking(
+  () => suspect3.riskLabel,
+  ({ oldValue, newValue }) => {
+    console.log(`riskLabel: ${oldValue} -> ${newValue}`);
+  }
+);
+suspect3.suspciousness = 60; // <-- "computing riskLabel of Mr. Smith", "riskLabel: low -> high"
+console.log(suspect3.riskLabel); // <-- "high", from the cache
+
+/**
+ * Arrays, Maps and Sets of @Observable fields are observable down to their contents,
+ * and observers learn which indices, keys or values changed.
+ * */
+@Observable
+class CaseFile {
+  suspects: string[] = [];
+  aliases = new Map<string, string>();
+  tags = new Set<string>();
+}
+
+const caseFile = new CaseFile();
+withObservationTracking(
+  () => caseFile.suspects.length,
+  ({ collectionChange }) => {
+    console.log(`suspects: ${JSON.stringify(collectionChange)}`);
+  }
+);
+caseFile.suspects.push("Glib Butler", "Mr. Smith"); // <-- suspects: {"inserted":[0,1],"removed":[],"updated":[]}
+
+withObservationTracking(
+  () => caseFile.aliases.get("Glib Butler"),
+  ({ collectionChange }) => {
+    console.log(`aliases: ${JSON.stringify(collectionChange)}`);
+  }
+);
+caseFile.aliases.set("Glib Butler", "The Butler"); // <-- aliases: {"inserted":["Glib Butler"],"removed":[],"updated":[]}
+
+withObservationTracking(
+  () => caseFile.tags.has("cold case"),
+  ({ collectionChange }) => {
+    console.log(`tags: ${JSON.stringify(collectionChange)}`);
+  }
+);
+caseFile.tags.add("cold case"); // <-- tags: {"inserted":["cold case"],"removed":[],"updated":[]}
+
+/**
+ * A rolled back transaction restores the contents of collections too.
+ * */
+try {
+  withTransaction(() => {
+    caseFile.suspects.splice(0, 1);
+    throw new Error("Glib Butler stays a suspect");
+  });
+} catch (e) {
+  console.log(`${(e as Error).message}: ${caseFile.suspects.join(", ")}`); // <-- "Glib Butler stays a suspect: Glib Butler, Mr. Smith"
+}
+
+/**
+ * "observations" keeps re-tracking "expr" until the consumer stops iterating.
+ * Both mutations of the first burst end up in a single value.
+ * */
+async function observeSuspiciousness() {
+  const suspect4 = new Suspect("Mrs. Peacock", 10);
+  (async () => {
+    await sleep(realScheduler, 10);
+    suspect4.suspciousness = 20;
+    suspect4.suspciousness = 30;
+    await sleep(realScheduler, 10);
+    suspect4.suspciousness = 40;
+  })();
+
+  for await (const value of observations(() => suspect4.suspciousness)) {
+    console.log(`suspciousness of ${suspect4.name}: ${value}`); // <-- 10, 30, 40
+    if (value >= 40) break;
+  }
+  console.log(
+    `observed key paths after break: [${Object.keys(
+      registrarOf(suspect4).lookups
+    )}]`
+  ); // <-- [], the observation was cancelled
+}
+observeSuspiciousness();
+
+/**
+ * "@ObservationIgnored" fields are neither tracked nor notify, accessors with a setter are
+ * observed like fields, and a subclass decorated with @Observable observes the fields of
+ * both classes through a single registrar.
+ * */
+@Observable
+class Detective {
+  name: string;
+  @ObservationIgnored
+  notes: string[] = [];
+  _badge: string = "";
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  get badge(): string {
+    return this._badge;
+  }
+  set badge(value: string) {
+    this._badge = value.toUpperCase();
+  }
+}
+
+@Observable
+class Inspector extends Detective {
+  rank: number = 1;
+}
+
+const inspector = new Inspector("Lestrade");
+withObservationTracking(
+  () => `${inspector.notes.length} ${inspector.badge}`,
+  () => {
+    console.log("Detective notes or badge have changed");
+  }
+);
+inspector.notes = ["Footprints"]; // <-- nothing, "notes" is ignored
+inspector.badge = "scotland yard"; // <-- "Detective notes or badge have changed"
+console.log(inspector.badge); // <-- "SCOTLAND YARD"
+
+withObservationTracking(
+  () => `${inspector.name} (${inspector.rank})`,
+  ({ keyPath }) => {
+    console.log(`Inspector has changed by ${keyPath}`);
+  }
+);
+inspector.rank = 2; // <-- "Inspector has changed by rank"
+
+try {
+  (inspector as any).alibi = "At the opera";
+} catch (e) {
+  console.log(`${(e as Error).name}: ${(e as Error).message}`); // <-- "UnobservedPropertyError: Cannot add property "alibi" to Inspector: ..."
+}
+
+/**
+ * Nested scopes each register their own observation, and the outer one depends on
+ * what the inner one read as well.
+ * */
+withObservationTracking(
+  () => {
+    const name = suspect.name;
+    withObservationTracking(
+      () => suspect2.name,
+      () => {
+        console.log("Inner scope: suspect2 has changed");
+      }
+    );
+    return name;
+  },
+  () => {
+    console.log("Outer scope: suspect or suspect2 has changed");
+  }
+);
+suspect2.name = "Jimmy the Prawn"; // <-- both scopes are notified
+
+/**
+ * A throwing "apply" registers nothing and leaves no stale scope behind.
+ * */
+try {
+  withObservationTracking(
+    () => {
+      suspect.name;
+      throw new Error("Lost track of the suspect");
+    },
+    () => {
+      console.log("never called");
+    }
+  );
+} catch (e) {
+  console.log((e as Error).message);
+}
+suspect.name = "Glib Lost"; // <-- nothing
+
+/**
+ * "withObservationTrackingAsync" keeps tracking across "await".
+ * */
+async function trackAcrossAwait() {
+  const suspect5 = new Suspect("Colonel Mustard", 5);
+  const suspciousness = await withObservationTrackingAsync(
+    async () => {
+      await sleep(realScheduler, 5);
+      return suspect5.suspciousness; // <-- read after "await", still tracked
+    },
+    () => {
+      console.log("Colonel Mustard's suspciousness has changed");
+    }
+  );
+  console.log(`Colonel Mustard's suspciousness: ${suspciousness}`);
+  suspect5.suspciousness = 95; // <-- "Colonel Mustard's suspciousness has changed"
+}
+trackAcrossAwait();
+
+/**
+ * "@Validate" rejects invalid values with a MutationError before anyone is notified,
+ * and the property keeps its old value.
+ * */
+withObservationTracking(
+  () => suspect2.suspciousness,
+  () => {
+    console.log("Suspect2's suspciousness has changed");
+  }
+);
+try {
+  suspect2.suspciousness = -1;
+} catch (e) {
+  if (e instanceof MutationError) {
+    console.log(`${e.message} (still ${suspect2.suspciousness})`); // <-- "Cannot set "suspciousness" to -1: suspiciousness must not be negative. (still 99)"
+  }
+}
+suspect2.suspciousness = 42; // <-- "Suspect2's suspciousness has changed", the observation survived the rejection
+
+type UndoGroup = { name: string; changes: ObservedChange[] };
+
+/**
+ * Records the changes of the subjects it tracks so that they can be undone and redone,
+ * similar to Foundation's UndoManager. A plain assignment is one undo step, and so is a whole
+ * transaction; "group" runs a transaction under a name meant for labels like "Undo Rename".
+ * The manager is @Observable itself, so "canUndo", "canRedo" and the action names can be tracked.
+ * The collections held by the fields of a tracked subject are tracked along with it, including
+ * the ones assigned later; nested @Observable objects have to be tracked on their own.
+ * */
+@Observable
+class UndoManager implements MutationRecorder {
+  undoStack: UndoGroup[] = [];
+  redoStack: UndoGroup[] = [];
+  /** How many undo steps are kept; the oldest ones are dropped beyond it. */
+  levelsOfUndo: number;
+  @ObservationIgnored
+  groupName: string = "";
+  @ObservationIgnored
+  replaying: boolean = false;
+  // the tracked subjects and the collections tracked along with each of them
+  @ObservationIgnored
+  collections = new Map<Observable, Set<Observable>>();
+
+  constructor(options: { levelsOfUndo?: number } = {}) {
+    this.levelsOfUndo = options.levelsOfUndo ?? Infinity;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  get undoActionName(): string {
+    return this.undoStack.at(-1)?.name ?? "";
+  }
+
+  get redoActionName(): string {
+    return this.redoStack.at(-1)?.name ?? "";
+  }
+
+  track(subject: Observable) {
+    attachRecorder(subject, this);
+    if (!this.collections.has(subject))
+      this.collections.set(subject, new Set());
+    this.trackCollections(subject);
+  }
+
+  untrack(subject: Observable) {
+    detachRecorder(subject, this);
+    const collections = this.collections.get(subject) ?? new Set();
+    this.collections.delete(subject);
+    collections.forEach((collection) => this.untrackCollection(collection));
+  }
+
+  /**
+   * Attaches to the collections the fields of "subject" hold now, and detaches from the ones
+   * they no longer hold.
+   * */
+  private trackCollections(subject: Observable) {
+    const previous = this.collections.get(subject)!;
+    const current = new Set<Observable>(
+      untracked(() =>
+        observedKeys(subject)
+          .map((key) => (subject as any)[key])
+          .filter((value) => isCollection(value) && isObservable(value))
+      )
+    );
+    this.collections.set(subject, current);
+    current.forEach((collection) => attachRecorder(collection, this));
+    previous.forEach((collection) => {
+      if (!current.has(collection)) this.untrackCollection(collection);
+    });
+  }
+
+  // a collection shared by several tracked subjects stays tracked while any of them holds it
+  private untrackCollection(collection: Observable) {
+    for (const [subject, collections] of this.collections) {
+      if (subject === collection || collections.has(collection)) return;
+    }
+    detachRecorder(collection, this);
+  }
+
+  group<T>(name: string, body: () => T): T {
+    const enclosing = this.groupName;
+    this.groupName = name;
+    try {
+      return withTransaction(body);
+    } finally {
+      this.groupName = enclosing;
+    }
+  }
+
+  record(changes: ObservedChange[]) {
+    // an assignment to a field may have replaced a collection, even when replaying
+    for (const { subject } of changes) {
+      if (this.collections.has(subject)) this.trackCollections(subject);
+    }
+    if (this.replaying) return;
+    this.undoStack.push({ name: this.groupName, changes });
+    if (this.undoStack.length > this.levelsOfUndo) this.undoStack.shift();
+    if (this.redoStack.length) this.redoStack.splice(0);
+  }
+
+  undo() {
+    const group = this.undoStack.at(-1);
+    if (!group) return;
+    this.replay(group, () => {
+      for (const { subject, keyPath, oldValue } of [
+        ...group.changes,
+      ].reverse()) {
+        subject[keyPath] = oldValue;
+      }
+    });
+    this.redoStack.push(this.undoStack.pop()!);
+  }
+
+  redo() {
+    const group = this.redoStack.at(-1);
+    if (!group) return;
+    this.replay(group, () => {
+      for (const { subject, keyPath, newValue } of group.changes) {
+        subject[keyPath] = newValue;
+      }
+    });
+    this.undoStack.push(this.redoStack.pop()!);
+  }
+
+  /**
+   * Applies the values of a step as one transaction, without recording it as a new step.
+   * Inside an enclosing transaction the step would only be recorded once that commits.
+   * A step that throws is rolled back and stays on its stack.
+   * */
+  replay(group: UndoGroup, apply: () => void) {
+    if (GLOBAL_TRANSACTION) {
+      throw new Error(`Cannot replay "${group.name}" inside a transaction.`);
+    }
+    this.replaying = true;
+    try {
+      withTransaction(apply);
+    } finally {
+      this.replaying = false;
+    }
+  }
+}
+
+const suspect6 = new Suspect("Professor Plum", 20);
+const undoManager = new UndoManager({ levelsOfUndo: 10 });
+undoManager.track(suspect6);
+withObservationTracking(
+  () => undoManager.canUndo,
+  () => {
+    console.log("canUndo has changed");
+  }
+);
+suspect6.suspciousness = 30; // <-- "canUndo has changed"
+undoManager.group("Clear suspect", () => {
+  suspect6.name = "Prof. Plum";
+  suspect6.suspciousness = 0;
+});
+console.log(`Undo ${undoManager.undoActionName}`); // <-- "Undo Clear suspect"
+undoManager.undo();
+console.log(`${suspect6.name} (${suspect6.suspciousness})`); // <-- "Professor Plum (30)"
+undoManager.undo();
+console.log(`${suspect6.name} (${suspect6.suspciousness})`); // <-- "Professor Plum (20)"
+undoManager.redo();
+console.log(
+  `${suspect6.name} (${suspect6.suspciousness}), canRedo: ${undoManager.canRedo}`
+); // <-- "Professor Plum (30), canRedo: true"
+
+/**
+ * An RFC 6902 JSON Patch operation. Only the operations a mutation can produce are supported.
+ * */
+type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown };
+
+/**
+ * Escapes a key as an RFC 6901 JSON Pointer segment.
+ * */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function isCollection(value: unknown): value is Collection {
+  return Array.isArray(value) || value instanceof Map || value instanceof Set;
+}
+
+function isObservableArray(value: unknown): value is ObservableArray<unknown> {
+  return Array.isArray(value) && isObservable(value);
+}
+
+/**
+ * The observed fields of an @Observable object: ignored fields and accessors are left out,
+ * accessors being backed by fields of their own.
+ * */
+function observedKeys(subject: object): string[] {
+  return Object.keys(subject).filter(
+    (key) =>
+      key !== "_$observationRegistrar" && !isObservationIgnored(subject, key)
+  );
+}
+
+function toSnapshot(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toSnapshot);
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value].map(([key, entry]) => [String(key), toSnapshot(entry)])
+    );
+  }
+  if (value instanceof Set) return [...value].map(toSnapshot);
+  if (isObservable(value)) return snapshot(value);
+  return value;
+}
+
+/**
+ * Returns the observed fields of "subject" as a plain JSON tree, without tracking any of them.
+ * Nested @Observable objects become objects, arrays and Sets become arrays, and Maps become
+ * objects whose keys are stringified.
+ * */
+function snapshot(subject: Observable): Record<string, unknown> {
+  return untracked(() =>
+    Object.fromEntries(
+      observedKeys(subject).map((key) => [
+        key,
+        toSnapshot(Reflect.get(subject, key)),
+      ])
+    )
+  );
+}
+
+/**
+ * Returns the value to assign in place of "current" for the JSON "json". Nested @Observable
+ * objects and observable collections are updated in place, so that they keep their identity
+ * (and their observers); anything else is replaced by "json" itself.
+ * */
+function restore(current: unknown, json: unknown): unknown {
+  if (current instanceof ObservableMap) {
+    current.contents = new Map(
+      Object.entries(json as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        restore(current.get(key), entry),
+      ])
+    );
+  } else if (current instanceof ObservableSet) {
+    current.contents = new Set(json as unknown[]);
+  } else if (isObservableArray(current)) {
+    current.contents = (json as unknown[]).map((entry, i) =>
+      restore(current[i], entry)
+    );
+  } else if (isObservable(current) && !isCollection(current)) {
+    applySnapshot(current, json as Record<string, unknown>);
+  } else {
+    return json;
+  }
+  return current;
+}
+
+/**
+ * Restores the observed fields of "subject" from a JSON tree made by "snapshot", as one
+ * transaction: each observation fires once, and only fields whose value changes notify.
+ * */
+function applySnapshot(subject: Observable, json: Record<string, unknown>) {
+  withTransaction(() => {
+    for (const key of observedKeys(subject)) {
+      if (!(key in json)) continue;
+      const current = untracked(() => Reflect.get(subject, key));
+      const value = restore(current, json[key]);
+      if (!Object.is(value, current)) Reflect.set(subject, key, value);
+    }
+  });
+}
+
+/**
+ * The JSON Pointers of "root" and of every @Observable object and collection reachable from it.
+ * */
+function pointersOf(root: Observable): Map<object, string> {
+  const pointers = new Map<object, string>();
+  const visit = (value: unknown, pointer: string) => {
+    if (!isObservable(value) || pointers.has(value)) return;
+    pointers.set(value, pointer);
+    if (value instanceof Map) {
+      value.forEach((entry, key) =>
+        visit(entry, `${pointer}/${escapePointer(String(key))}`)
+      );
+    } else if (Array.isArray(value)) {
+      value.forEach((entry, i) => visit(entry, `${pointer}/${i}`));
+    } else if (!(value instanceof Set)) {
+      for (const key of observedKeys(value)) {
+        visit(Reflect.get(value, key), `${pointer}/${escapePointer(key)}`);
+      }
+    }
+  };
+  untracked(() => visit(root, ""));
+  return pointers;
+}
+
+/**
+ * Translates a change of the subject at "pointer" into JSON Patch operations.
+ * Operations are in application order: array indices are removed from the last one.
+ * */
+function toPatches(
+  pointer: string,
+  change: ObservedChange
+): JsonPatchOperation[] {
+  const { subject, keyPath, oldValue, newValue, collectionChange } = change;
+  if (keyPath !== COLLECTION_KEY_PATH || !isCollection(subject)) {
+    const path = `${pointer}/${escapePointer(keyPath)}`;
+    return [{ op: "replace", path, value: toSnapshot(newValue) }];
+  }
+  // the collectionChange of changes merged by a transaction is gone
+  if (!collectionChange) {
+    return [{ op: "replace", path: pointer, value: toSnapshot(newValue) }];
+  }
+  const { inserted, removed, updated } = collectionChange;
+  if (subject instanceof Set) {
+    const before = [...(oldValue as Set<unknown>)];
+    return [
+      ...removed
+        .map((value) => before.indexOf(value))
+        .sort((a, b) => b - a)
+        .map(
+          (i): JsonPatchOperation => ({ op: "remove", path: `${pointer}/${i}` })
+        ),
+      ...inserted.map(
+        (value): JsonPatchOperation => ({
+          op: "add",
+          path: `${pointer}/-`,
+          value: toSnapshot(value),
+        })
+      ),
+    ];
+  }
+  if (subject instanceof Map) {
+    const after = newValue as Map<unknown, unknown>;
+    const path = (key: unknown) => `${pointer}/${escapePointer(String(key))}`;
+    return [
+      ...removed.map(
+        (key): JsonPatchOperation => ({ op: "remove", path: path(key) })
+      ),
+      ...inserted.map(
+        (key): JsonPatchOperation => ({
+          op: "add",
+          path: path(key),
+          value: toSnapshot(after.get(key)),
+        })
+      ),
+      ...updated.map(
+        (key): JsonPatchOperation => ({
+          op: "replace",
+          path: path(key),
+          value: toSnapshot(after.get(key)),
+        })
+      ),
+    ];
+  }
+  const after = newValue as unknown[];
+  return [
+    ...[...removed]
+      .reverse()
+      .map(
+        (i): JsonPatchOperation => ({ op: "remove", path: `${pointer}/${i}` })
+      ),
+    ...inserted.map(
+      (i): JsonPatchOperation => ({
+        op: "add",
+        path: `${pointer}/${i}`,
+        value: toSnapshot(after[i as number]),
+      })
+    ),
+    ...updated.map(
+      (i): JsonPatchOperation => ({
+        op: "replace",
+        path: `${pointer}/${i}`,
+        value: toSnapshot(after[i as number]),
+      })
+    ),
+  ];
+}
+
+/**
+ * Whether a change attached, detached or moved @Observable objects or collections, so that
+ * the pointers below its subject must be walked again. Elements of Sets have no pointers.
+ * */
+function movesChildren(change: ObservedChange): boolean {
+  const { subject, keyPath, oldValue, newValue, collectionChange } = change;
+  if (keyPath !== COLLECTION_KEY_PATH || !isCollection(subject)) {
+    return isObservable(oldValue) || isObservable(newValue);
+  }
+  if (subject instanceof Set) return false;
+  if (!collectionChange) return true;
+  const { inserted, removed, updated } = collectionChange;
+  if (subject instanceof Map) {
+    const before = oldValue as Map<unknown, unknown>;
+    const after = newValue as Map<unknown, unknown>;
+    return (
+      [...removed, ...updated].some((key) => isObservable(before.get(key))) ||
+      [...inserted, ...updated].some((key) => isObservable(after.get(key)))
+    );
+  }
+  const before = oldValue as unknown[];
+  const after = newValue as unknown[];
+  if (updated.some((i) => isObservable(before[i as number]))) return true;
+  if (updated.some((i) => isObservable(after[i as number]))) return true;
+  // inserting or removing elements moves the ones behind them
+  const start = Math.min(...(inserted as number[]), ...(removed as number[]));
+  return (
+    before.slice(start).some(isObservable) ||
+    after.slice(start).some(isObservable)
+  );
+}
+
+/**
+ * Calls "onPatches" with the JSON Patch operations of every mutation of "root" and of the
+ * @Observable objects and collections reachable from it, one call per plain assignment or
+ * committed transaction. Children attached later are followed, detached ones dropped.
+ * @Computed getters and accessors are left out, as in "snapshot": their values derive from
+ * fields, whose own changes are patched. Returns a function that stops the stream.
+ * */
+function onPatch(
+  root: Observable,
+  onPatches: (patches: JsonPatchOperation[]) => void
+): () => void {
+  let pointers = new Map<object, string>();
+  const recorder: MutationRecorder = {
+    record(changes) {
+      const patches: JsonPatchOperation[] = [];
+      let stale = false;
+      for (const change of changes) {
+        if (stale) attach();
+        stale = false;
+        const pointer = pointers.get(change.subject);
+        // the fields an accessor is backed by are patched instead
+        if (pointer === undefined || change.accessor) continue;
+        patches.push(...toPatches(pointer, change));
+        stale = movesChildren(change);
+      }
+      if (stale) attach();
+      if (patches.length) onPatches(patches);
+    },
+  };
+  const detach = () => {
+    pointers.forEach((_, subject) => detachRecorder(subject, recorder));
+  };
+  const attach = () => {
+    const previous = pointers;
+    pointers = pointersOf(root);
+    previous.forEach((_, subject) => {
+      if (!pointers.has(subject)) detachRecorder(subject, recorder);
+    });
+    pointers.forEach((_, subject) => attachRecorder(subject, recorder));
+  };
+  attach();
+  return detach;
+}
+
+function childOf(node: unknown, segment: string): unknown {
+  if (node instanceof Map) return node.get(segment);
+  if (node instanceof Set) return [...node][Number(segment)];
+  return Reflect.get(node as object, segment);
+}
+
+function applyPatch(
+  container: unknown,
+  key: string,
+  patch: JsonPatchOperation
+) {
+  if (Array.isArray(container)) {
+    const index = key === "-" ? container.length : Number(key);
+    switch (patch.op) {
+      case "add":
+        return container.splice(index, 0, patch.value);
+      case "remove":
+        return container.splice(index, 1);
+      case "replace": {
+        const current = untracked(() => container[index]);
+        const value = restore(current, patch.value);
+        if (!Object.is(value, current)) container[index] = value;
+        return;
+      }
+    }
+  }
+  if (container instanceof Map) {
+    if (patch.op === "remove") return container.delete(key);
+    return container.set(
+      key,
+      restore(
+        untracked(() => container.get(key)),
+        patch.value
+      )
+    );
+  }
+  if (container instanceof Set) {
+    if (patch.op !== "add") container.delete([...container][Number(key)]);
+    if (patch.op !== "remove") container.add(patch.value);
+    return;
+  }
+  if (patch.op === "remove") {
+    throw new Error(`Cannot remove the observed property "${patch.path}".`);
+  }
+  const current = untracked(() => Reflect.get(container as object, key));
+  const value = restore(current, patch.value);
+  if (!Object.is(value, current)) Reflect.set(container as object, key, value);
+}
+
+/**
+ * Applies JSON Patch operations (as emitted by "onPatch") to "root", as one transaction.
+ * */
+function applyPatches(root: Observable, patches: JsonPatchOperation[]) {
+  withTransaction(() => {
+    for (const patch of patches) {
+      if (!["add", "remove", "replace"].includes(patch.op)) {
+        throw new Error(`Unsupported JSON Patch operation "${patch.op}".`);
+      }
+      const segments = patch.path.split("/").slice(1).map(unescapePointer);
+      const key = segments.pop();
+      if (key === undefined) {
+        if (patch.op !== "replace") {
+          throw new Error(`Cannot ${patch.op} the root of the document.`);
+        }
+        applySnapshot(root, patch.value as Record<string, unknown>);
+        continue;
+      }
+      const container = untracked(() => segments.reduce(childOf, root));
+      applyPatch(container, key, patch);
+    }
+  });
+}
+
+/**
+ * "snapshot" and "applySnapshot" persist and restore the observed state, while "onPatch"
+ * streams every later mutation, nested ones included, as JSON Patch operations that
+ * "applyPatches" can replay on a copy.
+ * */
+const saved = snapshot(caseFile);
+console.log(JSON.stringify(saved)); // <-- {"suspects":["Glib Butler","Mr. Smith"],"aliases":{"Glib Butler":"The Butler"},"tags":["cold case"]}
+
+const recorded: JsonPatchOperation[] = [];
+const stopPatches = onPatch(caseFile, (patches) => {
+  console.log(JSON.stringify(patches));
+  recorded.push(...patches);
+});
+caseFile.suspects.push("Professor Plum"); // <-- [{"op":"add","path":"/suspects/2","value":"Professor Plum"}]
+caseFile.aliases.delete("Glib Butler"); // <-- [{"op":"remove","path":"/aliases/Glib Butler"}]
+withTransaction(() => {
+  caseFile.tags.add("solved");
+  caseFile.suspects.splice(0, 1);
+}); // <-- [{"op":"add","path":"/tags/-","value":"solved"},{"op":"remove","path":"/suspects/0"}]
+stopPatches();
+
+const replica = new CaseFile();
+applySnapshot(replica, saved);
+applyPatches(replica, recorded);
+console.log(
+  JSON.stringify(snapshot(replica)) === JSON.stringify(snapshot(caseFile))
+); // <-- true
+
+const stopMemberPatches = onPatch(member, (patches) => {
+  console.log(JSON.stringify(patches));
+});
+member.account.permission.level = 11; // <-- [{"op":"replace","path":"/account/permission/level","value":11}]
+stopMemberPatches();
+
+withObservationTracking(
+  () => suspect3.riskLabel,
+  () => {}
+);
+const stopSuspectPatches = onPatch(suspect3, (patches) => {
+  console.log(JSON.stringify(patches));
+});
+suspect3.suspciousness = 10; // <-- [{"op":"replace","path":"/suspciousness","value":10}], nothing for "riskLabel"
+stopSuspectPatches();
@@ -1,121 +1,83 @@
+import { InMemorySink } from "./concurrency/coalescer_metrics";
+import {
+  AbortError,
+  ContinuationMisuseError,
+  withCheckedContinuation,
+} from "./concurrency/continuation";
+import { DataLoader } from "./concurrency/data_loader";
+import {
+  CachedRequestCoalescer,
+  RequestCoalescer,
+} from "./concurrency/request_coalescer";
+import {
+  realScheduler,
+  Scheduler,
+  sleep,
+  VirtualScheduler,
+} from "./concurrency/scheduler";
+
 /**
  * Simulates an asynchronous thread execution context.
  * The provided asynchronous function is executed after a random delay to simulate concurrent execution.
+ * Both the delay and the timer come from `scheduler`, so a seeded `VirtualScheduler` replays the same interleaving.
  */
-function thread(fn: () => Promise<void>) {
-  setTimeout(fn, Math.floor(Math.random() * 1000));
-}
-
-async function someFetchRequest() {
-  console.log("Making request...");
-  await new Promise((resolve) => setTimeout(resolve, 2000));
-  return await fetch("https://jsonplaceholder.typicode.com/todos/1");
+function thread(fn: () => Promise<void>, scheduler: Scheduler = realScheduler) {
+  scheduler.setTimeout(fn, Math.floor(scheduler.random() * 1000));
 }
 
 /**
- * Continuation represents a point in a program where execution can be paused and resumed at a later time.
- * In computer science, continuations are a concept related to control flow, where a continuation represents
- * the future of a computation (i.e., what should happen next). In this implementation, `Continuation` allows
- * a promise to be explicitly resumed by either resolving it with a value or rejecting it with an error.
- *
- * @template T The type of value that the continuation will resolve to.
- * @template U The type of error that the continuation may reject with.
- * @extends {Promise<T>}
+ * Fetches `path` from jsonplaceholder after a simulated 2000ms of latency.
+ * The latency is slept on `scheduler`, and `transport` stands in for `fetch`,
+ * so that a `VirtualScheduler` can drive the whole request without touching the network.
  */
-class Continuation<
-  T,
-  in TResolveParam extends T = T,
-  in URejectParam extends Error = Error
-> extends Promise<T> {
-  private readonly $_resolve: (
-    value: TResolveParam | PromiseLike<TResolveParam>
-  ) => void;
-  private readonly $_reject: (reason: URejectParam | unknown) => void;
-  public initialCallStack: Error["stack"];
-
-  constructor(
-    executor: ConstructorParameters<typeof Promise<T>>[0] = () => {}
-  ) {
-    let resolver: (value: TResolveParam | PromiseLike<TResolveParam>) => void;
-    let rejector: (reason: URejectParam | unknown) => void;
-
-    super((resolve, reject) => {
-      resolver = resolve;
-      rejector = reject;
-      return executor(resolve, reject);
-    });
-
-    this.$_resolve = resolver!;
-    this.$_reject = rejector!;
-
-    // Capture the initial call stack to preserve context in case of an error
-    this.initialCallStack = Error().stack?.split("\n").slice(2).join("\n");
-  }
-
-  public resumeByReturning<TReturn extends TResolveParam>(
-    value: TReturn | PromiseLike<TReturn>
-  ): void {
-    this.$_resolve(value);
-  }
-
-  public resumeByThrowing<TError extends URejectParam>(
-    error: TError | unknown
-  ): void {
-    if (error instanceof Error) {
-      error.stack = [error.stack?.split("\n")[0], this.initialCallStack].join(
-        "\n"
-      );
-    }
-    this.$_reject(error);
-  }
+async function someFetchRequest(
+  path: string,
+  init?: RequestInit,
+  scheduler: Scheduler = realScheduler,
+  transport: (url: string, init?: RequestInit) => Promise<Response> = fetch
+) {
+  console.log(`Making request to ${path}...`);
+  await sleep(scheduler, 2000);
+  return await transport(`https://jsonplaceholder.typicode.com${path}`, init);
 }
 
-/**
- * A class that coalesces concurrent requests and returns a shared result once
- * the first request completes. Prevents duplicate network requests by queuing
- * subsequent requests and resolving them with the result of the first request.
- *
- * @template T The type of the result returned by the request.
- */
-class RequestCoalescer<T> {
-  private lock: boolean = false;
-  private continuationQueue: Continuation<T>[] = [];
-
-  private coalesce(): Continuation<T> {
-    const cont = new Continuation<T>();
-    this.continuationQueue.push(cont);
-    return cont;
-  }
-
-  public async request(): Promise<T> {
-    if (this.lock) return this.coalesce();
-    this.lock = true;
-    try {
-      const result = await someFetchRequest();
-      const payload = await result.json();
-      this.resumeByReturning(payload);
-      return payload;
-    } catch (e) {
-      this.resumeByThrowing(e);
-      throw e;
-    } finally {
-      this.lock = false;
-    }
-  }
-
-  public resumeByReturning(result: T): void {
-    this.continuationQueue.forEach((cont) => cont.resumeByReturning(result));
-    this.continuationQueue = [];
-  }
-
-  public resumeByThrowing(e: Error | unknown): void {
-    this.continuationQueue.forEach((cont) => cont.resumeByThrowing(e));
-    this.continuationQueue = [];
+type Todo = {
+  userId: number;
+  id: number;
+  title: string;
+  completed: boolean;
+};
+
+async function decodeTodo(response: Response): Promise<Todo> {
+  const json: unknown = await response.json();
+  if (
+    typeof json !== "object" ||
+    json === null ||
+    typeof (json as Todo).id !== "number" ||
+    typeof (json as Todo).title !== "string"
+  ) {
+    throw new TypeError(`Unexpected todo payload: ${JSON.stringify(json)}`);
   }
+  return json as Todo;
 }
 
 // Example usage of RequestCoalescer with threads
-const coalescer = new RequestCoalescer();
+// Threads 1 and 2 share one request for "/todos/1" while threads 3 and 4 share another for "/todos/2".
+// RequestCoalescer<Todo, Parameters<typeof someFetchRequest>, Response> is inferred from the fetcher and decoder,
+// with the arguments [path: string, init?: RequestInit, scheduler?: Scheduler, transport?: (url, init?) => Promise<Response>].
+const coalescer = new RequestCoalescer(someFetchRequest, {
+  decode: decodeTodo,
+  bindSignal: (
+    [path, init, scheduler, transport],
+    signal
+  ): Parameters<typeof someFetchRequest> => [
+    path,
+    { ...init, signal },
+    scheduler,
+    transport,
+  ],
+  retry: { maxAttempts: 3, baseDelay: 200, maxDelay: 2000, timeout: 5000 },
+});
 const t1 = thread;
 const t2 = thread;
 const t3 = thread;
@@ -123,24 +85,125 @@ const t4 = thread;
 
 t1(async () => {
   console.log(`Thread 1 begins`);
-  const result = await coalescer.request();
+  const result = await coalescer.request("/todos/1");
   console.log(`Thread 1: ${JSON.stringify(result)}`);
 });
 
 t2(async () => {
   console.log(`Thread 2 begins`);
-  const result = await coalescer.request();
+  const result = await coalescer.request("/todos/1");
   console.log(`Thread 2: ${JSON.stringify(result)}`);
 });
 
 t3(async () => {
   console.log(`Thread 3 begins`);
-  const result = await coalescer.request();
+  const result = await coalescer.request("/todos/2");
   console.log(`Thread 3: ${JSON.stringify(result)}`);
 });
 
 t4(async () => {
   console.log(`Thread 4 begins`);
-  const result = await coalescer.request();
+  const result = await coalescer.request("/todos/2");
   console.log(`Thread 4: ${JSON.stringify(result)}`);
 });
+
+// Example usage of CachedRequestCoalescer
+// The second read of "/todos/3" is served from the cache without another request.
+const cachedCoalescer = new CachedRequestCoalescer(coalescer, {
+  ttl: 5000,
+  staleWhileRevalidate: true,
+  maxEntries: 100,
+});
+
+thread(async () => {
+  const first = await cachedCoalescer.request("/todos/3");
+  const second = await cachedCoalescer.request("/todos/3");
+  console.log(`Cached: ${first === second}`);
+});
+
+// Example usage of cancellation
+// Thread 5 gives up on "/todos/4" after 500ms; being its only waiter, the fetch itself is aborted too.
+thread(async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 500);
+  try {
+    await coalescer.requestWithSignal(controller.signal, "/todos/4");
+  } catch (e) {
+    console.log(`Thread 5: ${e instanceof AbortError ? "cancelled" : e}`);
+  }
+});
+
+// Example usage of CheckedContinuation
+// The second resume is a bug: it throws a ContinuationMisuseError pointing at where the continuation was created.
+withCheckedContinuation<string>((continuation) => {
+  continuation.resumeByReturning("first");
+  try {
+    continuation.resumeByReturning("second");
+  } catch (e) {
+    console.log(`Checked: ${e instanceof ContinuationMisuseError}`);
+  }
+}).then((value) => console.log(`Checked: resumed with ${value}`));
+
+// Example usage of DataLoader
+// Loads 1, 2 and 404 made in the same tick become a single "/todos?id=1&id=2&id=404" request.
+// The duplicate load of 1 shares its result, and only the load of the missing 404 fails.
+const todoLoader = new DataLoader<number, Todo>(async (ids) => {
+  const query = ids.map((id) => `id=${id}`).join("&");
+  const todos: Todo[] = await (
+    await someFetchRequest(`/todos?${query}`)
+  ).json();
+  return ids.map(
+    (id) =>
+      todos.find((todo) => todo.id === id) ?? new Error(`Todo ${id} not found`)
+  );
+});
+
+thread(async () => {
+  const results = await Promise.allSettled([
+    todoLoader.load(1),
+    todoLoader.load(1),
+    todoLoader.load(2),
+    todoLoader.load(404),
+  ]);
+  results.forEach((result) => console.log(`DataLoader: ${result.status}`));
+});
+
+// Example usage of VirtualScheduler
+// On a virtual clock the race between the four threads below is reproduced exactly for a given seed,
+// so the number of fetches can be asserted instead of eyeballed.
+const virtualScheduler = new VirtualScheduler(42);
+const virtualMetrics = new InMemorySink();
+let virtualFetches = 0;
+const virtualCoalescer = new RequestCoalescer(
+  (path: string) => {
+    virtualFetches++;
+    return someFetchRequest(path, undefined, virtualScheduler, async (url) => {
+      return new Response(`payload of ${url}`);
+    });
+  },
+  {
+    decode: (response: Response) => response.text(),
+    scheduler: virtualScheduler,
+    sink: virtualMetrics,
+  }
+);
+
+["/todos/1", "/todos/1", "/todos/2", "/todos/2"].forEach((path) =>
+  thread(async () => {
+    const result = await virtualCoalescer.request(path);
+    console.log(`Virtual ${virtualScheduler.now()}ms: ${result}`);
+  }, virtualScheduler)
+);
+
+virtualScheduler.runUntilIdle().then(() => {
+  console.assert(virtualFetches === 2, "Expected one fetch per path");
+  console.log(`Virtual: ${virtualFetches} fetches`);
+  // Metrics: 2 leaders, 1 follower per flight, all within the 5000ms latency bucket.
+  console.log(
+    `Metrics: ${virtualMetrics.leaderStarts} leaders, followers ${
+      virtualMetrics.followerCounts
+    }, error rate ${virtualMetrics.errorRate}, latencies ${JSON.stringify(
+      virtualMetrics.latencyHistogram([1000, 5000])
+    )}`
+  );
+});